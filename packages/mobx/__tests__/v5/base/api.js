@@ -9,6 +9,8 @@ test("correct api should be exposed", function () {
         [
             "$mobx", // adminstration symbol
             "action",
+            "applyPatches",
+            "applySnapshot",
             "_allowStateChanges",
             "_allowStateChangesInsideComputed",
             "_allowStateReadsEnd",
@@ -17,13 +19,20 @@ test("correct api should be exposed", function () {
             "autorun",
             "comparer",
             "computed",
+            "computedAsync",
             "configure",
             "createAtom",
+            "createMobxRuntime",
+            "createUndoManager",
+            "createVirtualScheduler",
             "defineProperty",
+            "diffReactiveGraphs",
             "extendObservable",
+            "filterView",
             "flow",
             "isFlow",
             "flowResult",
+            "flushReactions",
             "FlowCancellationError",
             "isFlowCancellationError",
             "get",
@@ -31,9 +40,14 @@ test("correct api should be exposed", function () {
             "getAtom",
             "getDebugName",
             "getDependencyTree",
+            "getFlowSignal",
+            "getFlowStatus",
             "has",
             "_getGlobalState",
             "getObserverTree",
+            "getReactiveGraph",
+            "getSnapshot",
+            "groupByView",
             "intercept",
             "_interceptReads",
             "isAction",
@@ -45,26 +59,39 @@ test("correct api should be exposed", function () {
             "isObservableArray",
             "isObservableMap",
             "isObservableSet",
+            "isObservableSortedArray",
+            "isObservableSortedMap",
+            "isObservableWeakMap",
+            "isObservableWeakSet",
             "isObservableObject",
             "isObservableProp",
             "keys",
             "makeAutoObservable",
             "makeObservable",
+            "mapView",
             "ObservableMap",
             "ObservableSet",
+            "ObservableSortedArray",
+            "ObservableSortedMap",
+            "ObservableWeakMap",
+            "ObservableWeakSet",
             "observable",
             "observe",
+            "observeDeep",
             "onReactionError",
             "onBecomeObserved",
             "onBecomeUnobserved",
             "ownKeys",
             "Reaction",
             "reaction",
+            "reactiveGraphToDot",
             "remove",
             "_resetGlobalState",
             "runInAction",
             "set",
+            "sortedView",
             "spy",
+            "startProfiling",
             "toJS",
             "trace",
             "transaction",
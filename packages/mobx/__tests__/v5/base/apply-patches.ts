@@ -0,0 +1,151 @@
+import {
+    observable,
+    observeDeep,
+    applyPatches,
+    autorun,
+    toJS,
+    isObservableObject,
+    IJsonPatch
+} from "../../../src/mobx"
+
+test("applyPatches applies patches to objects, arrays, maps and sets", () => {
+    const target = observable({
+        title: "a",
+        todos: [{ done: false }, { done: false }],
+        users: new Map<string, any>(),
+        tags: new Set<string>(["x"])
+    })
+
+    applyPatches(target, [
+        { op: "replace", path: "/title", value: "b" },
+        { op: "add", path: "/description", value: "c" },
+        { op: "replace", path: "/todos/1/done", value: true },
+        { op: "remove", path: "/todos/0" },
+        { op: "add", path: "/todos/-", value: { done: false } },
+        { op: "add", path: "/users/a~1b", value: { name: "A" } },
+        { op: "add", path: "/tags/y", value: "y" },
+        { op: "remove", path: "/tags/x", oldValue: "x" }
+    ])
+
+    expect(toJS(target)).toEqual({
+        title: "b",
+        description: "c",
+        todos: [{ done: true }, { done: false }],
+        users: new Map([["a/b", { name: "A" }]]),
+        tags: new Set(["y"])
+    })
+    expect(isObservableObject(target.todos[1])).toBe(true)
+    expect(isObservableObject(target.users.get("a/b"))).toBe(true)
+})
+
+test("applyPatches uses the enhancer of the target collection", () => {
+    const target = observable({ items: observable.array<any>([], { deep: false }) })
+    applyPatches(target, [{ op: "add", path: "/items/0", value: { x: 1 } }])
+    expect(isObservableObject(target.items[0])).toBe(false)
+})
+
+test("applyPatches applies all patches in a single batch", () => {
+    const target = observable({ a: 1, b: 1 })
+    const values: number[] = []
+    autorun(() => values.push(target.a + target.b))
+
+    applyPatches(target, [
+        { op: "replace", path: "/a", value: 2 },
+        { op: "replace", path: "/b", value: 3 }
+    ])
+
+    expect(values).toEqual([2, 5])
+})
+
+test("applyPatches replays patches recorded by observeDeep", () => {
+    const source = observable({ todos: [{ title: "a", tags: ["x"] }], meta: new Map() })
+    const target = observable(toJS(source))
+    const recorded: IJsonPatch[] = []
+    observeDeep(source, patches => recorded.push(...patches))
+
+    source.todos.push({ title: "b", tags: [] })
+    source.todos[0].tags.push("y")
+    source.todos.shift()
+    source.todos[0].title = "c"
+    source.meta.set("count", 1)
+
+    applyPatches(target, recorded)
+    expect(toJS(target)).toEqual(toJS(source))
+})
+
+test("applyPatches validates paths", () => {
+    const target = observable({ a: { b: 1 }, list: [1] })
+
+    expect(() => applyPatches(target, [{ op: "add", path: "/x/y", value: 1 }])).toThrow(
+        /path '\/x' not found/
+    )
+    expect(() => applyPatches(target, [{ op: "remove", path: "/list/3" }])).toThrow(
+        /Invalid array index '3'/
+    )
+    expect(() => applyPatches(target, [{ op: "replace", path: "/a/c", value: 1 }])).toThrow(
+        "[MobX] Cannot apply patch, path '/a/c' not found"
+    )
+    expect(() => applyPatches(target, [{ op: "remove", path: "/nope" }])).toThrow(
+        "[MobX] Cannot apply patch, path '/nope' not found"
+    )
+    expect(toJS(target)).toEqual({ a: { b: 1 }, list: [1] })
+    expect(() => applyPatches(target, [{ op: "replace", path: "", value: 1 }])).toThrow(
+        /Cannot apply 'replace' to the root/
+    )
+    expect(() => applyPatches(target, [{ op: "move", path: "/a" } as any])).toThrow(
+        /Unsupported patch operation 'move'/
+    )
+})
+
+test("applyPatches fails on map keys and set members that can't be resolved", () => {
+    const target = observable({
+        byNumber: new Map<number, string>([[1, "a"]]),
+        byString: new Map<string, string>(),
+        tags: new Set<string>(["x"])
+    })
+
+    applyPatches(target, [
+        { op: "replace", path: "/byNumber/1", value: "b" },
+        { op: "add", path: "/byString/2", value: "c" }
+    ])
+    expect(target.byNumber.get(1)).toBe("b")
+    expect(target.byString.get("2")).toBe("c")
+
+    expect(() =>
+        applyPatches(target, [{ op: "replace", path: "/byNumber/2", value: "b" }])
+    ).toThrow("[MobX] Cannot apply patch, path '/byNumber/2' not found")
+    expect(() => applyPatches(target, [{ op: "add", path: "/byNumber/2", value: "b" }])).toThrow(
+        /new keys can only be added to maps of which all keys are strings/
+    )
+    expect(() => applyPatches(target, [{ op: "remove", path: "/byString/3" }])).toThrow(
+        /path '\/byString\/3' not found/
+    )
+    expect(() => applyPatches(target, [{ op: "remove", path: "/tags/y" }])).toThrow(
+        /path '\/tags\/y' not found/
+    )
+    expect(target.byNumber.size).toBe(1)
+    expect(target.tags.size).toBe(1)
+})
+
+test("applyPatches supports copy and test", () => {
+    const target = observable({ todos: [{ title: "a" }], tags: new Set(["x"]) })
+
+    applyPatches(target, [
+        { op: "test", path: "/todos/0", value: { title: "a" } },
+        { op: "test", path: "/tags/x", value: "x" },
+        { op: "copy", from: "/todos/0", path: "/todos/-" }
+    ])
+    expect(toJS(target.todos)).toEqual([{ title: "a" }, { title: "a" }])
+    expect(target.todos[1]).not.toBe(target.todos[0])
+    expect(isObservableObject(target.todos[1])).toBe(true)
+
+    expect(() =>
+        applyPatches(target, [
+            { op: "replace", path: "/todos/0/title", value: "b" },
+            { op: "test", path: "/todos/1/title", value: "b" }
+        ])
+    ).toThrow("[MobX] Test failed, the value at '/todos/1/title' doesn't equal the expected value")
+    expect(() => applyPatches(target, [{ op: "copy", path: "/todos/-" }])).toThrow(
+        /it has no 'from' path/
+    )
+})
@@ -0,0 +1,218 @@
+import {
+    IArrayDidChange,
+    IJsonPatch,
+    IObservableArray,
+    applyPatches,
+    autorun,
+    createUndoManager,
+    filterView,
+    intercept,
+    observable,
+    observe,
+    observeDeep,
+    spy
+} from "../../../src/mobx"
+
+function observeChanges<T>(array: T[]) {
+    const changes: IArrayDidChange<T>[] = []
+    const dispose = observe(array, change => {
+        changes.push(change)
+    })
+    return { changes, dispose }
+}
+
+test("move reports a single move change", () => {
+    const items = observable([{ id: "a" }, { id: "b" }, { id: "c" }, { id: "d" }])
+    const [a, b] = items
+    const { changes, dispose } = observeChanges(items)
+    const ids: string[] = []
+    const disposeAutorun = autorun(() => ids.push(items.map(item => item.id).join("")))
+
+    items.move(0, 2)
+    expect(ids).toEqual(["abcd", "bcad"])
+    expect(items[2]).toBe(a)
+    items.move(3, 0)
+    expect(ids).toEqual(["abcd", "bcad", "dbca"])
+    expect(items[1]).toBe(b)
+    items.move(1, 1)
+    expect(changes).toMatchObject([
+        { type: "move", observableKind: "array", index: 0, fromIndex: 0, toIndex: 2, value: a },
+        { type: "move", index: 0, fromIndex: 3, toIndex: 0 }
+    ])
+    expect(changes.length).toBe(2)
+    expect(changes[0].object).toBe(items)
+
+    expect(() => items.move(0, 4)).toThrow(
+        "[MobX] Cannot move from index 0 to index 4, out of range: 4"
+    )
+    expect(() => items.move(-1, 0)).toThrow(/out of range: -1/)
+    dispose()
+    disposeAutorun()
+})
+
+test("move can be intercepted", () => {
+    const items = observable([1, 2, 3])
+    const dispose = intercept(items, change => {
+        if (change.type !== "move") {
+            return change
+        }
+        if (change.toIndex === 0) {
+            return null
+        }
+        change.toIndex = 1
+        return change
+    })
+    items.move(2, 0)
+    expect(items.slice()).toEqual([1, 2, 3])
+    items.move(2, 1)
+    items.move(0, 2)
+    expect(items.slice()).toEqual([3, 1, 2])
+    dispose()
+})
+
+test("swap reports moves", () => {
+    const items = observable(["a", "b", "c", "d"])
+    const { changes, dispose } = observeChanges(items)
+    let runs = 0
+    const disposeAutorun = autorun(() => {
+        items.slice()
+        runs++
+    })
+
+    items.swap(0, 1)
+    expect(items.slice()).toEqual(["b", "a", "c", "d"])
+    expect(changes).toMatchObject([{ type: "move", fromIndex: 0, toIndex: 1 }])
+
+    items.swap(3, 0)
+    expect(items.slice()).toEqual(["d", "a", "c", "b"])
+    expect(changes.slice(1)).toMatchObject([
+        { type: "move", fromIndex: 0, toIndex: 3, value: "b" },
+        { type: "move", fromIndex: 2, toIndex: 0, value: "d" }
+    ])
+    expect(runs).toBe(3)
+    dispose()
+    disposeAutorun()
+})
+
+test("swap is not applied when an interceptor cancels one of its moves", () => {
+    const items = observable(["a", "b", "c", "d"])
+    const { changes, dispose } = observeChanges(items)
+    const intercepted: any[] = []
+    const disposeIntercept = intercept(items, change => {
+        intercepted.push(change)
+        return change.type === "move" && change.toIndex === 0 ? null : change
+    })
+
+    items.swap(0, 3)
+    expect(intercepted).toMatchObject([
+        { type: "move", fromIndex: 0, toIndex: 3 },
+        { type: "move", fromIndex: 2, toIndex: 0 }
+    ])
+    expect(items.slice()).toEqual(["a", "b", "c", "d"])
+    expect(changes).toEqual([])
+    disposeIntercept()
+    dispose()
+})
+
+test("applySplices reports a single splice", () => {
+    const items = observable([1, 2, 3, 4, 5, 6])
+    const { changes, dispose } = observeChanges(items)
+    const removed = items.applySplices([
+        { index: 1, removedCount: 1 },
+        { index: 3, added: [10, 11] },
+        { index: 5, removedCount: 1, added: [12] }
+    ])
+    expect(items.slice()).toEqual([1, 3, 4, 10, 11, 12, 6])
+    expect(removed).toEqual([2, 3, 4, 5])
+    expect(changes).toMatchObject([
+        {
+            type: "splice",
+            index: 1,
+            removed: [2, 3, 4, 5],
+            added: [3, 4, 10, 11, 12],
+            removedCount: 4,
+            addedCount: 5
+        }
+    ])
+
+    expect(items.applySplices([{ index: 0, removedCount: 1, added: [1] }])).toEqual([])
+    expect(items.applySplices([])).toEqual([])
+    expect(changes.length).toBe(1)
+    dispose()
+})
+
+test("applySplices keeps observable items", () => {
+    const items = observable([{ id: 1 }, { id: 2 }])
+    const [first, second] = items
+    items.applySplices([
+        { index: 0, removedCount: 1 },
+        { index: 1, added: [first, { id: 3 }] }
+    ])
+    expect(items[0]).toBe(second)
+    expect(items[1]).toBe(first)
+    expect(items[2]).toEqual({ id: 3 })
+})
+
+test("move is reported to spy", () => {
+    const items = observable([1, 2])
+    const events: any[] = []
+    const dispose = spy(event => event.type === "move" && events.push(event))
+    items.move(0, 1)
+    expect(events).toMatchObject([{ type: "move", fromIndex: 0, toIndex: 1, spyReportStart: true }])
+    dispose()
+})
+
+test("move works without proxies", () => {
+    const items = observable([1, 2, 3], { proxy: false })
+    items.move(0, 2)
+    items.swap(0, 1)
+    expect(items.slice()).toEqual([3, 2, 1])
+    expect(items[2]).toBe(1)
+})
+
+test("moves are reported as move patches, which can be applied and undone", () => {
+    const state = observable({ todos: [{ id: 1 }, { id: 2 }, { id: 3 }] })
+    const patches: IJsonPatch[][] = []
+    const dispose = observeDeep(state, p => patches.push(p))
+    const undoManager = createUndoManager(state)
+
+    ;(state.todos as IObservableArray).move(0, 2)
+    expect(patches).toEqual([[{ op: "move", from: "/todos/0", path: "/todos/2" }]])
+    // the moved todo is reported at its new path
+    state.todos[2].id = 4
+    expect(patches[1]).toEqual([{ op: "replace", path: "/todos/2/id", value: 4, oldValue: 1 }])
+
+    undoManager.undo()
+    undoManager.undo()
+    expect(state.todos.map(todo => todo.id)).toEqual([1, 2, 3])
+    undoManager.redo()
+    expect(state.todos.map(todo => todo.id)).toEqual([2, 3, 1])
+
+    const copy = observable({ todos: [{ id: 1 }, { id: 2 }, { id: 3 }] })
+    applyPatches(copy, patches[0])
+    expect(copy.todos.map(todo => todo.id)).toEqual([2, 3, 1])
+    expect(() => applyPatches(copy, [{ op: "move", from: "/other/0", path: "/todos/1" }])).toThrow(
+        "items can only be moved within the same array"
+    )
+
+    dispose()
+    undoManager.dispose()
+})
+
+test("views don't recompute items that moved", () => {
+    const todos = observable([
+        { title: "a", done: true },
+        { title: "b", done: false },
+        { title: "c", done: true }
+    ])
+    const checked: string[] = []
+    const done = filterView(todos, todo => {
+        checked.push(todo.title)
+        return todo.done
+    })
+    checked.length = 0
+    todos.move(2, 0)
+    expect(done.items.map(todo => todo.title)).toEqual(["c", "a"])
+    expect(checked).toEqual([])
+    done.dispose()
+})
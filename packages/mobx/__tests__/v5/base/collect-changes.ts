@@ -0,0 +1,120 @@
+import {
+    IReactionChange,
+    computed,
+    observable,
+    reaction,
+    runInAction,
+    values
+} from "../../../src/mobx"
+
+function collect<T>(expression: () => T, opts = {}) {
+    const calls: IReactionChange[][] = []
+    const dispose = reaction(expression, (_value, _prev, _r, changes) => calls.push(changes), {
+        collectChanges: true,
+        ...opts
+    })
+    return { calls, dispose }
+}
+
+test("array changes are passed to the effect", () => {
+    const todos = observable(["a", "b"])
+    const { calls, dispose } = collect(() => todos.slice())
+
+    runInAction(() => {
+        todos.push("c")
+        todos[0] = "A"
+    })
+    expect(calls.length).toBe(1)
+    expect(calls[0]).toMatchObject([
+        { type: "splice", index: 2, added: ["c"], removedCount: 0 },
+        { type: "update", index: 0, newValue: "A", oldValue: "a" }
+    ])
+
+    todos.splice(1, 1)
+    expect(calls.length).toBe(2)
+    expect(calls[1]).toMatchObject([{ type: "splice", index: 1, removed: ["b"] }])
+    dispose()
+})
+
+test("map changes are passed to the effect", () => {
+    const map = observable.map({ a: 1 })
+    const { calls, dispose } = collect(() => Array.from(map.entries()))
+
+    map.set("a", 2)
+    map.set("b", 3)
+    map.delete("a")
+    expect(calls).toMatchObject([
+        [{ type: "update", name: "a", oldValue: 1, newValue: 2 }],
+        [{ type: "add", name: "b", newValue: 3 }],
+        [{ type: "delete", name: "a", oldValue: 2 }]
+    ])
+    dispose()
+})
+
+test("object changes are passed to the effect", () => {
+    const todo = observable<{ title: string; done?: boolean }>({ title: "a" })
+    const { calls, dispose } = collect(() => values(todo))
+
+    runInAction(() => {
+        todo.title = "b"
+        todo.done = true
+    })
+    expect(calls).toMatchObject([
+        [
+            { type: "update", name: "title", oldValue: "a", newValue: "b" },
+            { type: "add", name: "done", newValue: true }
+        ]
+    ])
+    delete todo.done
+    expect(calls[1]).toMatchObject([{ type: "remove", name: "done", oldValue: true }])
+    dispose()
+})
+
+test("set changes are passed to the effect", () => {
+    const set = observable.set([1])
+    const { calls, dispose } = collect(() => Array.from(set))
+
+    set.add(2)
+    set.delete(1)
+    expect(calls).toMatchObject([[{ type: "add", newValue: 2 }], [{ type: "delete", oldValue: 1 }]])
+    dispose()
+})
+
+test("only changes of observed atoms are collected, also through computed values", () => {
+    const todos = observable([1, 2, 3])
+    const other = observable([1])
+    const total = computed(() => todos.reduce((sum, todo) => sum + todo, 0))
+    const { calls, dispose } = collect(() => total.get())
+
+    other.push(2)
+    todos.push(4)
+    expect(calls).toMatchObject([[{ type: "splice", added: [4] }]])
+    dispose()
+})
+
+test("changes are collected until the effect runs", () => {
+    const todos = observable([1, 2])
+    const { calls, dispose } = collect(() => todos.length)
+
+    todos[0] = 3 // doesn't change the length
+    todos.push(4)
+    expect(calls).toMatchObject([
+        [
+            { type: "update", newValue: 3 },
+            { type: "splice", added: [4] }
+        ]
+    ])
+    dispose()
+})
+
+test("the effect receives no changes without collectChanges", () => {
+    const todos = observable([1])
+    let received
+    const dispose = reaction(
+        () => todos.slice(),
+        (_value, _prev, _r, changes) => (received = changes)
+    )
+    todos.push(2)
+    expect(received).toEqual([])
+    dispose()
+})
@@ -0,0 +1,266 @@
+import {
+    autorun,
+    configure,
+    filterView,
+    groupByView,
+    mapView,
+    observable,
+    observe,
+    runInAction,
+    sortedView
+} from "../../../src/mobx"
+
+function createTodos(...titles: string[]) {
+    return observable(titles.map((title, index) => ({ title, done: false, priority: index })))
+}
+
+test("filterView only runs the predicate for changed items", () => {
+    const todos = createTodos("a", "b", "c")
+    const checked: string[] = []
+    const done = filterView(todos, todo => {
+        checked.push(todo.title)
+        return todo.done
+    })
+    expect(done.items).toEqual([])
+    expect(checked).toEqual(["a", "b", "c"])
+
+    checked.length = 0
+    todos[1].done = true
+    todos[2].done = true
+    expect(done.items.map(todo => todo.title)).toEqual(["b", "c"])
+    expect(checked).toEqual(["b", "c"])
+
+    checked.length = 0
+    todos[0].done = true
+    todos.push({ title: "d", done: true, priority: 3 })
+    expect(done.items.map(todo => todo.title)).toEqual(["a", "b", "c", "d"])
+    expect(checked).toEqual(["a", "d"])
+
+    checked.length = 0
+    todos.splice(1, 1)
+    todos[2].done = false
+    expect(done.items.map(todo => todo.title)).toEqual(["a", "c"])
+    expect(checked).toEqual(["d"])
+    done.dispose()
+})
+
+test("filterView is observable", () => {
+    const todos = createTodos("a", "b")
+    const done = filterView(todos, todo => todo.done)
+    const counts: number[] = []
+    const dispose = autorun(() => counts.push(done.items.length))
+    runInAction(() => {
+        todos[0].done = true
+        todos[1].done = true
+    })
+    todos.clear()
+    expect(counts).toEqual([0, 2, 0])
+    dispose()
+    done.dispose()
+})
+
+test("mapView keeps the result of items that move", () => {
+    const todos = createTodos("b", "a", "c")
+    const mapped: string[] = []
+    const titles = mapView(todos, todo => {
+        mapped.push(todo.title)
+        return { title: todo.title.toUpperCase() }
+    })
+    expect(titles.items.map(item => item.title)).toEqual(["B", "A", "C"])
+    const a = titles.items[1]
+
+    mapped.length = 0
+    todos.replace(todos.slice().sort((x, y) => x.title.localeCompare(y.title)))
+    expect(titles.items.map(item => item.title)).toEqual(["A", "B", "C"])
+    expect(titles.items[0]).toBe(a)
+    expect(mapped).toEqual([])
+
+    const changes: any[] = []
+    const dispose = observe(titles.items as any, change => changes.push(change))
+    todos[2].title = "d"
+    expect(mapped).toEqual(["d"])
+    expect(titles.items.map(item => item.title)).toEqual(["A", "B", "D"])
+    expect(changes).toMatchObject([{ type: "update", index: 2 }])
+    dispose()
+    titles.dispose()
+})
+
+test("groupByView keeps the order of the source within groups", () => {
+    const todos = createTodos("a", "b", "c", "d")
+    const byState = groupByView(todos, todo => (todo.done ? "done" : "todo"))
+    const titles = () =>
+        Object.fromEntries(
+            Array.from(byState.groups.entries(), ([key, group]) => [
+                key,
+                group.map(todo => todo.title)
+            ])
+        )
+    expect(titles()).toEqual({ todo: ["a", "b", "c", "d"] })
+
+    todos[2].done = true
+    todos[0].done = true
+    expect(titles()).toEqual({ todo: ["b", "d"], done: ["a", "c"] })
+
+    todos[0].done = false
+    todos.splice(1, 1, { title: "e", done: true, priority: 4 })
+    expect(titles()).toEqual({ todo: ["a", "d"], done: ["e", "c"] })
+
+    runInAction(() => todos.forEach(todo => (todo.done = true)))
+    expect(titles()).toEqual({ done: ["a", "e", "c", "d"] })
+    expect(byState.groups.has("todo")).toBe(false)
+    byState.dispose()
+})
+
+test("sortedView only moves items of which the key changed", () => {
+    const todos = createTodos("a", "b", "c")
+    const sortedBy: string[] = []
+    const byPriority = sortedView(
+        todos,
+        todo => {
+            sortedBy.push(todo.title)
+            return todo.priority
+        },
+        (x, y) => y - x
+    )
+    expect(byPriority.items.map(todo => todo.title)).toEqual(["c", "b", "a"])
+
+    sortedBy.length = 0
+    const changes: any[] = []
+    const dispose = observe(byPriority.items as any, change => changes.push(change))
+    todos[0].priority = 5
+    expect(byPriority.items.map(todo => todo.title)).toEqual(["a", "c", "b"])
+    expect(sortedBy).toEqual(["a"])
+    expect(changes).toMatchObject([
+        { type: "splice", index: 2, removedCount: 1 },
+        { type: "splice", index: 0, addedCount: 1 }
+    ])
+
+    // reordering the source doesn't change the view
+    changes.length = 0
+    todos.replace(todos.slice().reverse())
+    expect(changes).toEqual([])
+    todos.push({ title: "d", done: false, priority: 1 })
+    expect(byPriority.items.map(todo => todo.title)).toEqual(["a", "c", "b", "d"])
+    dispose()
+    byPriority.dispose()
+})
+
+test("sortedView keeps the order of the source for equal keys", () => {
+    const todos = createTodos("a", "b", "c")
+    const byDone = sortedView(todos, todo => todo.done)
+    expect(byDone.items.map(todo => todo.title)).toEqual(["a", "b", "c"])
+    todos[0].done = true
+    expect(byDone.items.map(todo => todo.title)).toEqual(["b", "c", "a"])
+    byDone.dispose()
+})
+
+test("sortedView only compares a logarithmic amount of keys when a key changes", () => {
+    const size = 1000
+    const items = observable(Array.from({ length: size }, (_, index) => ({ key: index })))
+    let comparisons = 0
+    const byKey = sortedView(
+        items,
+        item => item.key,
+        (a, b) => {
+            comparisons++
+            return a - b
+        }
+    )
+    comparisons = 0
+    items[10].key = size + 10
+    expect(byKey.items[size - 1]).toBe(items[10])
+    expect(comparisons).toBeLessThanOrEqual(2 * Math.ceil(Math.log2(size + 1)))
+    byKey.dispose()
+})
+
+test("views stay in sync with the source", () => {
+    let seed = 1
+    const random = (max: number) => {
+        seed = (seed * 16807) % 2147483647
+        return seed % max
+    }
+    let nextId = 0
+    const createItem = () => observable({ id: nextId++, value: random(5) })
+    const items = observable(Array.from({ length: 20 }, createItem), { deep: false })
+    const even = filterView(items, item => item.value % 2 === 0)
+    const values = mapView(items, item => item.value)
+    const byValue = groupByView(items, item => item.value)
+    const sorted = sortedView(items, item => item.value * 1000 + item.id)
+
+    for (let i = 0; i < 300; i++) {
+        const index = random(items.length + 1)
+        switch (random(5)) {
+            case 0:
+                items.splice(index, random(3), ...Array.from({ length: random(3) }, createItem))
+                break
+            case 1:
+                items.replace(items.slice().reverse())
+                break
+            case 2:
+                if (items.length > 1) {
+                    items.move(random(items.length), random(items.length))
+                }
+                break
+            default:
+                if (items.length) {
+                    items[random(items.length)].value = random(5)
+                }
+        }
+        expect(even.items).toEqual(items.filter(item => item.value % 2 === 0))
+        expect(values.items).toEqual(items.map(item => item.value))
+        const groups = new Map<number, unknown[]>()
+        items.forEach(item => groups.set(item.value, [...(groups.get(item.value) || []), item]))
+        expect(new Map(Array.from(byValue.groups, ([key, group]) => [key, group.slice()]))).toEqual(
+            groups
+        )
+        expect(sorted.items).toEqual(
+            items.slice().sort((a, b) => a.value * 1000 + a.id - (b.value * 1000 + b.id))
+        )
+    }
+    ;[even, values, byValue, sorted].forEach(view => view.dispose())
+})
+
+test("views accept sorted arrays as source", () => {
+    const numbers = observable.sortedArray((a: number, b: number) => a - b, [4, 1, 3])
+    const even = filterView(numbers, n => n % 2 === 0)
+    const doubled = mapView(numbers, n => n * 2)
+    numbers.add(2)
+    numbers.remove(4)
+    expect(even.items).toEqual([2])
+    expect(doubled.items).toEqual([2, 4, 6])
+    even.dispose()
+    doubled.dispose()
+})
+
+test("disposed views are no longer updated", () => {
+    const todos = createTodos("a")
+    const done = filterView(todos, todo => todo.done)
+    done.dispose()
+    todos[0].done = true
+    todos.push({ title: "b", done: true, priority: 1 })
+    expect(done.items).toEqual([])
+})
+
+test("views can be updated when actions are enforced", () => {
+    configure({ enforceActions: "always" })
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {})
+    try {
+        const todos = createTodos("a", "b")
+        const done = filterView(todos, todo => todo.done)
+        const dispose = autorun(() => done.items.length)
+        runInAction(() => (todos[0].done = true))
+        expect(done.items.length).toBe(1)
+        expect(warn).not.toHaveBeenCalled()
+        dispose()
+        done.dispose()
+    } finally {
+        warn.mockRestore()
+        configure({ enforceActions: "never" })
+    }
+})
+
+test("views expect an observable array", () => {
+    expect(() => filterView([] as any, () => true)).toThrow(
+        "[MobX] Collection views expect an observable array as source"
+    )
+})
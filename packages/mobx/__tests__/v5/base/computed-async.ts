@@ -0,0 +1,143 @@
+import { autorun, computedAsync, observable } from "../../../src/mobx"
+
+function deferred<T>() {
+    let resolve!: (value: T) => void
+    let reject!: (error: any) => void
+    const promise = new Promise<T>((res, rej) => {
+        resolve = res
+        reject = rej
+    })
+    return { promise, resolve, reject }
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0))
+
+test("computedAsync resolves promises and exposes the state", async () => {
+    const query = observable.box("a")
+    const requests = {}
+    const result = computedAsync(
+        () => {
+            const request = deferred<string>()
+            requests[query.get()] = request
+            return request.promise
+        },
+        { initialValue: "" }
+    )
+    const events: string[] = []
+    const dispose = autorun(() => events.push(`${result.state} ${result.value}`))
+
+    requests["a"].resolve("A")
+    await tick()
+    query.set("b")
+    requests["b"].reject("error")
+    await tick()
+
+    expect(events).toEqual(["pending ", "fulfilled A", "pending A", "rejected A"])
+    expect(result.error).toBe("error")
+    dispose()
+})
+
+test("computedAsync drops stale results", async () => {
+    const query = observable.box("a")
+    const requests = {}
+    const result = computedAsync(() => {
+        const request = deferred<string>()
+        requests[query.get()] = request
+        return request.promise
+    })
+    const values: any[] = []
+    const dispose = autorun(() => values.push(result.value))
+
+    query.set("b")
+    requests["b"].resolve("B")
+    await tick()
+    requests["a"].resolve("A")
+    await tick()
+
+    expect(values).toEqual([undefined, "B"])
+    expect(result.state).toBe("fulfilled")
+    dispose()
+})
+
+test("computedAsync supports synchronous values and errors", () => {
+    const x = observable.box(1)
+    const result = computedAsync(() => {
+        if (x.get() < 0) {
+            throw new Error("negative")
+        }
+        return x.get() * 2
+    })
+    const dispose = autorun(() => result.value)
+
+    expect(result.value).toBe(2)
+    expect(result.state).toBe("fulfilled")
+    x.set(-1)
+    expect(result.state).toBe("rejected")
+    expect(result.error.message).toBe("negative")
+    expect(result.value).toBe(2)
+    dispose()
+})
+
+test("computedAsync only runs while observed", () => {
+    const x = observable.box(1)
+    let runs = 0
+    const result = computedAsync(() => {
+        runs++
+        return x.get()
+    })
+
+    expect(result.value).toBe(undefined)
+    expect(runs).toBe(0)
+
+    const dispose = autorun(() => result.value)
+    expect(runs).toBe(1)
+    x.set(2)
+    expect(runs).toBe(2)
+
+    dispose()
+    x.set(3)
+    expect(runs).toBe(2)
+
+    const dispose2 = autorun(() => result.value)
+    expect(runs).toBe(3)
+    expect(result.value).toBe(3)
+    dispose2()
+})
+
+test("computedAsync can debounce re-runs", () => {
+    jest.useFakeTimers()
+    try {
+        const x = observable.box(1)
+        let runs = 0
+        const result = computedAsync(
+            () => {
+                runs++
+                return x.get()
+            },
+            { debounce: 100 }
+        )
+        const dispose = autorun(() => result.value)
+
+        expect(result.value).toBe(1)
+        x.set(2)
+        jest.advanceTimersByTime(60)
+        x.set(3)
+        jest.advanceTimersByTime(60)
+        x.set(4)
+        // every change restarts the timer
+        jest.advanceTimersByTime(99)
+        expect(result.value).toBe(1)
+        expect(runs).toBe(1)
+        jest.advanceTimersByTime(1)
+        expect(result.value).toBe(4)
+        expect(runs).toBe(2)
+
+        x.set(5)
+        dispose()
+        jest.advanceTimersByTime(100)
+        expect(result.value).toBe(4)
+        expect(runs).toBe(2)
+    } finally {
+        jest.useRealTimers()
+    }
+})
@@ -0,0 +1,137 @@
+import { autorun, configure, observable, reaction, runInAction, when } from "../../../src/mobx"
+
+test("autorun runs the returned cleanup before the next run and on dispose", () => {
+    const x = observable.box(1)
+    const events: string[] = []
+    const dispose = autorun(
+        () => {
+            const value = x.get()
+            events.push("run " + value)
+            return () => events.push("cleanup " + value)
+        },
+        { returnsCleanup: true }
+    )
+    x.set(2)
+    expect(events).toEqual(["run 1", "cleanup 1", "run 2"])
+
+    dispose()
+    expect(events).toEqual(["run 1", "cleanup 1", "run 2", "cleanup 2"])
+    dispose()
+    expect(events.length).toBe(4)
+})
+
+test("reaction runs the returned cleanup before the next effect and on dispose", () => {
+    const x = observable.box(1)
+    const events: string[] = []
+    const dispose = reaction(
+        () => x.get() > 2,
+        (isLarge, _, r) => {
+            events.push("effect " + isLarge)
+            r.onCleanup(() => events.push("onCleanup " + isLarge))
+            return () => events.push("cleanup " + isLarge)
+        },
+        { fireImmediately: true, returnsCleanup: true }
+    )
+    x.set(2) // doesn't change the value of the expression
+    expect(events).toEqual(["effect false"])
+
+    x.set(3)
+    expect(events).toEqual(["effect false", "onCleanup false", "cleanup false", "effect true"])
+    dispose()
+    expect(events.slice(4)).toEqual(["onCleanup true", "cleanup true"])
+})
+
+test("cleanups don't track and may change state", () => {
+    configure({ enforceActions: "always" })
+    try {
+        const x = observable.box(1)
+        const y = observable.box(0)
+        let runs = 0
+        const dispose = autorun(r => {
+            runs++
+            x.get()
+            r.onCleanup(() => y.set(y.get() + 1))
+        })
+        runInAction(() => x.set(2))
+        expect(y.get()).toBe(1)
+        runInAction(() => y.set(5))
+        expect(runs).toBe(2)
+        dispose()
+        expect(y.get()).toBe(6)
+    } finally {
+        configure({ enforceActions: "never" })
+    }
+})
+
+test("cleanup registered by the run that disposes the reaction runs right away", () => {
+    const x = observable.box(1)
+    const cleanup = jest.fn()
+    autorun(
+        r => {
+            if (x.get() > 1) {
+                r.dispose()
+                return cleanup
+            }
+            return undefined
+        },
+        { returnsCleanup: true }
+    )
+    expect(cleanup).not.toHaveBeenCalled()
+    x.set(2)
+    expect(cleanup).toHaveBeenCalledTimes(1)
+})
+
+test("errors in cleanups are reported as errors of the reaction, without skipping the run", () => {
+    const x = observable.box(1)
+    const values: number[] = []
+    const onError = jest.fn()
+    const dispose = autorun(
+        () => {
+            values.push(x.get())
+            return () => {
+                if (x.get() === 2) {
+                    throw new Error("cleanup failed")
+                }
+            }
+        },
+        { onError, returnsCleanup: true }
+    )
+    x.set(2)
+    x.set(3)
+    expect(values).toEqual([1, 2, 3])
+    expect(onError).toHaveBeenCalledTimes(1)
+    expect(onError.mock.calls[0][0]).toEqual(new Error("cleanup failed"))
+    dispose()
+})
+
+test("returned functions are ignored without the returnsCleanup option", () => {
+    const x = observable.box(1)
+    const autorunResult = jest.fn()
+    const reactionResult = jest.fn()
+    const disposeAutorun = autorun(() => {
+        x.get()
+        return autorunResult
+    })
+    const disposeReaction = reaction(
+        () => x.get(),
+        () => reactionResult
+    )
+    x.set(2)
+    x.set(3)
+    disposeAutorun()
+    disposeReaction()
+    expect(autorunResult).not.toHaveBeenCalled()
+    expect(reactionResult).not.toHaveBeenCalled()
+})
+
+test("when doesn't use the return value of its effect", () => {
+    const x = observable.box(1)
+    const cleanup = jest.fn()
+    when(
+        () => x.get() > 1,
+        () => cleanup
+    )
+    x.set(2)
+    x.set(3)
+    expect(cleanup).not.toHaveBeenCalled()
+})
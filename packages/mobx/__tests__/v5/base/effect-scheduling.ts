@@ -0,0 +1,192 @@
+import {
+    IVirtualScheduler,
+    $mobx,
+    autorun,
+    configure,
+    createVirtualScheduler,
+    observable,
+    reaction
+} from "../../../src/mobx"
+
+let scheduler: IVirtualScheduler
+
+beforeEach(() => {
+    scheduler = createVirtualScheduler()
+    configure({ reactionScheduler: scheduler })
+})
+
+afterEach(() => {
+    scheduler.dispose()
+})
+
+function trackValues(opts: object) {
+    const x = observable.box(0)
+    const values: number[] = []
+    const dispose = reaction(
+        () => x.get(),
+        value => values.push(value),
+        opts
+    )
+    scheduler.flush()
+    return { x, values, dispose }
+}
+
+test("throttle runs the effect at most once per window", () => {
+    const { x, values, dispose } = trackValues({ throttle: 100 })
+
+    x.set(1)
+    scheduler.flush()
+    expect(values).toEqual([1])
+
+    x.set(2)
+    scheduler.advanceBy(50)
+    x.set(3)
+    scheduler.advanceBy(49)
+    expect(values).toEqual([1])
+    scheduler.advanceBy(1)
+    expect(values).toEqual([1, 3])
+
+    scheduler.advanceBy(200)
+    x.set(4)
+    scheduler.flush()
+    expect(values).toEqual([1, 3, 4])
+    dispose()
+})
+
+test("debounce runs the effect once no changes happened for a while", () => {
+    const { x, values, dispose } = trackValues({ debounce: 100 })
+
+    x.set(1)
+    scheduler.advanceBy(60)
+    x.set(2)
+    scheduler.advanceBy(60)
+    expect(values).toEqual([])
+    scheduler.advanceBy(40)
+    expect(values).toEqual([2])
+    dispose()
+})
+
+test("debounce with leading and without trailing drops the changes within the window", () => {
+    const { x, values, dispose } = trackValues({
+        debounce: { wait: 100, leading: true, trailing: false }
+    })
+
+    x.set(1)
+    scheduler.flush()
+    expect(values).toEqual([1])
+    x.set(2)
+    scheduler.advanceBy(100)
+    expect(values).toEqual([1])
+
+    // the dropped run still tracked the latest value
+    x.set(3)
+    scheduler.flush()
+    expect(values).toEqual([1, 3])
+    dispose()
+})
+
+test("debounce with maxWait runs while changes keep coming in", () => {
+    const { x, values, dispose } = trackValues({ debounce: { wait: 50, maxWait: 120 } })
+
+    for (let i = 1; i <= 6; i++) {
+        x.set(i)
+        scheduler.advanceBy(30)
+    }
+    expect(values).toEqual([4])
+    scheduler.advanceBy(50)
+    expect(values).toEqual([4, 6])
+    dispose()
+})
+
+test("animationFrame runs the effect once per frame", () => {
+    const x = observable.box(0)
+    const values: number[] = []
+    const dispose = autorun(() => values.push(x.get()), { animationFrame: true })
+    scheduler.advanceBy(16)
+    expect(values).toEqual([0])
+
+    x.set(1)
+    x.set(2)
+    scheduler.advanceBy(15)
+    expect(values).toEqual([0])
+    scheduler.advanceBy(1)
+    expect(values).toEqual([0, 2])
+    dispose()
+})
+
+test("animationFrame cancels a pending frame with cancelAnimationFrame", () => {
+    scheduler.dispose()
+    const global = globalThis as any
+    const frames = new Map<number, () => void>()
+    global.requestAnimationFrame = (f: () => void) => {
+        frames.set(frames.size + 1, f)
+        return frames.size
+    }
+    global.cancelAnimationFrame = (id: number) => frames.delete(id)
+    try {
+        const x = observable.box(0)
+        const values: number[] = []
+        const dispose = autorun(() => values.push(x.get()), { animationFrame: true })
+        expect([...frames.keys()]).toEqual([1])
+        frames.get(1)!()
+        expect(values).toEqual([0])
+
+        x.set(1)
+        expect(frames.size).toBe(2)
+        dispose()
+        expect([...frames.keys()]).toEqual([1])
+    } finally {
+        delete global.requestAnimationFrame
+        delete global.cancelAnimationFrame
+    }
+})
+
+test("isScheduled is true while the effect is pending", () => {
+    const x = observable.box(0)
+    const isScheduled: boolean[] = []
+    const dispose = autorun(
+        r => {
+            x.get()
+            isScheduled.push(r.isScheduled())
+        },
+        { debounce: 100 }
+    )
+    scheduler.advanceBy(100)
+    expect(isScheduled).toEqual([false])
+
+    const r = dispose[$mobx]
+    x.set(1)
+    scheduler.flush()
+    expect(r.isScheduled()).toBe(true)
+    scheduler.advanceBy(100)
+    expect(r.isScheduled()).toBe(false)
+    dispose()
+})
+
+test("disposing clears the pending timers", () => {
+    const { x, values, dispose } = trackValues({ debounce: { wait: 50, maxWait: 100 } })
+
+    x.set(1)
+    scheduler.flush()
+    expect(scheduler.pendingCount).toBe(2)
+    dispose()
+    expect(scheduler.pendingCount).toBe(0)
+    expect(dispose[$mobx].isScheduled()).toBe(false)
+    scheduler.advanceBy(100)
+    expect(values).toEqual([])
+})
+
+test("autorun doesn't support trailing: false", () => {
+    expect(() =>
+        autorun(() => {}, { debounce: { wait: 10, leading: true, trailing: false } })
+    ).toThrow(
+        "[MobX] autorun doesn't support 'trailing: false', as it needs to run to track its dependencies"
+    )
+    expect(() =>
+        reaction(
+            () => 1,
+            () => {},
+            { debounce: { wait: 10, trailing: false } }
+        )
+    ).toThrow("[MobX] 'debounce' requires 'leading' or 'trailing' to be true")
+})
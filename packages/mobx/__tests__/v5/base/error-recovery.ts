@@ -0,0 +1,195 @@
+import { autorun, computed, observable, onReactionError, reaction } from "../../../src/mobx"
+
+function withoutConsoleError(fn: () => void) {
+    const spy = jest.spyOn(console, "error").mockImplementation(() => {})
+    try {
+        fn()
+    } finally {
+        spy.mockRestore()
+    }
+}
+
+test("reactions can be disposed from onError", () => {
+    const x = observable.box(1)
+    const values: number[] = []
+    autorun(
+        () => {
+            if (x.get() < 0) {
+                throw new Error("negative")
+            }
+            values.push(x.get())
+        },
+        { onError: () => "dispose" }
+    )
+
+    x.set(-1)
+    x.set(2)
+
+    expect(values).toEqual([1])
+})
+
+test("reactions can rethrow from onError", () => {
+    const x = observable.box(1)
+    const errors: any[] = []
+    const handled: any[] = []
+    const disposeHandler = onReactionError(error => errors.push(error))
+    const dispose = autorun(
+        () => {
+            if (x.get() < 0) {
+                throw "negative"
+            }
+        },
+        { onError: error => (handled.push(error), "rethrow") }
+    )
+
+    withoutConsoleError(() => x.set(-1))
+
+    expect(handled).toEqual(["negative"])
+    expect(errors).toEqual(["negative"])
+    dispose()
+    disposeHandler()
+})
+
+test("reactions can be retried after a delay", () => {
+    jest.useFakeTimers()
+    try {
+        let available = false
+        const x = observable.box(1)
+        const values: number[] = []
+        const dispose = reaction(
+            () => x.get(),
+            value => {
+                if (!available) {
+                    throw new Error("not available")
+                }
+                values.push(value)
+            },
+            { onError: () => ({ retryAfter: 100 }) }
+        )
+
+        x.set(2)
+        expect(values).toEqual([])
+        jest.advanceTimersByTime(100)
+        expect(values).toEqual([])
+        available = true
+        jest.advanceTimersByTime(100)
+        expect(values).toEqual([2])
+        jest.advanceTimersByTime(100)
+        expect(values).toEqual([2])
+        dispose()
+    } finally {
+        jest.useRealTimers()
+    }
+})
+
+test("failed effects don't run again for the same value, unless they are retried", () => {
+    const x = observable.box(1)
+    const values: number[] = []
+    const errors: any[] = []
+    const dispose = reaction(
+        () => x.get() > 0,
+        () => {
+            values.push(x.get())
+            throw new Error("failed")
+        },
+        {
+            onError: error => {
+                errors.push(error.message)
+            }
+        }
+    )
+
+    x.set(-1)
+    x.set(-2)
+    expect(values).toEqual([-1])
+    expect(errors).toEqual(["failed"])
+    dispose()
+})
+
+test("computed values can keep their last value", () => {
+    const x = observable.box(1)
+    const errors: any[] = []
+    const double = computed(
+        () => {
+            if (x.get() < 0) {
+                throw new Error("negative")
+            }
+            return x.get() * 2
+        },
+        { onError: error => (errors.push(error.message), "keepLastValue") }
+    )
+    const values: number[] = []
+    const dispose = autorun(() => values.push(double.get()))
+
+    x.set(-1)
+    x.set(3)
+
+    expect(values).toEqual([2, 6])
+    expect(errors).toEqual(["negative"])
+    dispose()
+
+    // without a last value the error is thrown
+    expect(() => double.get()).not.toThrow()
+    x.set(-2)
+    expect(() => double.get()).toThrow("negative")
+})
+
+test("computed values can be retried after a delay", () => {
+    jest.useFakeTimers()
+    try {
+        let attempts = 0
+        const x = observable.box(1)
+        const value = computed(
+            () => {
+                attempts++
+                if (attempts < 3) {
+                    throw new Error("flaky")
+                }
+                return x.get()
+            },
+            { onError: () => ({ retryAfter: 100 }) }
+        )
+        const values: any[] = []
+        const dispose = autorun(() => {
+            try {
+                values.push(value.get())
+            } catch (e: any) {
+                values.push(e.message)
+            }
+        })
+
+        jest.advanceTimersByTime(100)
+        jest.advanceTimersByTime(100)
+        jest.advanceTimersByTime(100)
+        expect(values).toEqual(["flaky", "flaky", 1])
+        expect(attempts).toBe(3)
+        dispose()
+    } finally {
+        jest.useRealTimers()
+    }
+})
+
+test("onReactionError reports the path of the error", () => {
+    const x = observable.box(1)
+    const inner = computed(
+        () => {
+            if (x.get() < 0) {
+                throw new Error("negative")
+            }
+            return x.get()
+        },
+        { name: "inner" }
+    )
+    const outer = computed(() => inner.get() * 2, { name: "outer" })
+    const paths: string[][] = []
+    const disposeHandler = onReactionError((error, derivation, path) =>
+        paths.push(path.map(d => d.name_))
+    )
+    const dispose = autorun(() => outer.get(), { name: "view" })
+
+    withoutConsoleError(() => x.set(-1))
+
+    expect(paths).toEqual([["view", "outer", "inner"]])
+    dispose()
+    disposeHandler()
+})
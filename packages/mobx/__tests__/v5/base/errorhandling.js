@@ -4,7 +4,7 @@ const utils = require("../../v5/utils/test-utils")
 
 const { observable, computed, $mobx, autorun } = mobx
 
-const voidObserver = function () { }
+const voidObserver = function () {}
 
 function checkGlobalState() {
     const gs = mobx._getGlobalState()
@@ -148,7 +148,7 @@ test("deny state changes in views", function () {
 
     m.reaction(
         () => z.get(),
-        () => { }
+        () => {}
     )
     expect(
         utils.grabConsole(() => {
@@ -194,7 +194,7 @@ test("deny array change in view", function (done) {
     }).not.toThrow()
     m.reaction(
         () => z.length,
-        () => { }
+        () => {}
     )
 
     expect(
@@ -311,6 +311,101 @@ test("throws when the max iterations over reactions are done", () => {
     mobx._resetGlobalState()
 })
 
+describe("reaction cycles", () => {
+    afterEach(() => {
+        mobx.configure({ maxReactionIterations: 100, onReactionCycle: "log" })
+    })
+
+    function createCycle() {
+        const a = mobx.observable.box(1, { name: "a" })
+        const b = mobx.observable.box(1, { name: "b" })
+        let runs = 0
+        const d1 = mobx.autorun(() => b.set(a.get() + 1), { name: "ab" })
+        const d2 = mobx.autorun(
+            () => {
+                runs++
+                a.set(b.get() + 1)
+            },
+            { name: "ba" }
+        )
+        return {
+            a,
+            getRuns: () => runs,
+            dispose() {
+                d1()
+                d2()
+            }
+        }
+    }
+
+    test("maxReactionIterations can be configured", () => {
+        mobx.configure({ maxReactionIterations: 10 })
+        let cycle
+        utils.consoleError(() => {
+            cycle = createCycle()
+        }, /Reaction doesn't converge to a stable state after 10 iterations/)
+        expect(cycle.getRuns()).toBeLessThan(10)
+        cycle.dispose()
+        checkGlobalState()
+    })
+
+    test("the report names the reactions and observables", () => {
+        utils.consoleError(() => {
+            createCycle().dispose()
+        }, /Reactions: ab\. Observables: a\s*$/)
+    })
+
+    test("onReactionCycle receives the cycle", () => {
+        const cycles = []
+        mobx.configure({ onReactionCycle: cycle => cycles.push(cycle) })
+        createCycle().dispose()
+        expect(cycles).toEqual([{ iterations: 100, reactions: ["ab"], observables: ["a"] }])
+        checkGlobalState()
+    })
+
+    test("onReactionCycle 'throw' throws from the action that started the cycle", () => {
+        mobx.configure({ onReactionCycle: "throw" })
+        expect(() => createCycle()).toThrow(
+            /\[MobX\] Reaction doesn't converge to a stable state after 100 iterations/
+        )
+        expect(mobx._getGlobalState().pendingReactions).toEqual([])
+        checkGlobalState()
+    })
+
+    test("onReactionCycle 'throw' finishes the action and its spy events first", () => {
+        mobx.configure({ onReactionCycle: "throw" })
+        const events = []
+        const disposeSpy = mobx.spy(event => events.push(event))
+        let cycle
+        try {
+            expect(() =>
+                mobx.runInAction(() => {
+                    cycle = createCycle()
+                })
+            ).toThrow(/\[MobX\] Reaction doesn't converge to a stable state after 100 iterations/)
+        } finally {
+            disposeSpy()
+        }
+        expect(events.filter(event => event.spyReportStart).length).toBe(
+            events.filter(event => event.spyReportEnd).length
+        )
+        expect(events[events.length - 1]).toEqual({
+            type: "report-end",
+            spyReportEnd: true,
+            time: expect.any(Number)
+        })
+        expect(mobx._getGlobalState().startedInstrumentationEvents).toEqual([])
+        checkGlobalState()
+        cycle.dispose()
+    })
+
+    test("maxReactionIterations should be positive", () => {
+        expect(() => mobx.configure({ maxReactionIterations: 0 })).toThrow(
+            /'maxReactionIterations' should be a positive number/
+        )
+    })
+})
+
 test("issue 86, converging cycles", function () {
     function findIndex(arr, predicate) {
         for (let i = 0, l = arr.length; i < l; i++) if (predicate(arr[i]) === true) return i
@@ -866,4 +961,4 @@ describe("es5 compat warnings", () => {
     })
 })
 
-test("should throw when adding properties in ES5 compat mode", () => { })
+test("should throw when adding properties in ES5 compat mode", () => {})
@@ -2,6 +2,8 @@ import * as mobx from "../../../src/mobx"
 import {
     flow,
     FlowCancellationError,
+    getFlowSignal,
+    getFlowStatus,
     isFlowCancellationError,
     makeObservable
 } from "../../../src/mobx"
@@ -523,3 +525,239 @@ test("flow is called with correct context", async () => {
     })
     await f.call(thisArg)
 })
+
+test("cancelling a flow aborts its signal", async () => {
+    let signal
+    const f = flow(function* () {
+        signal = getFlowSignal()
+        yield new Promise((resolve, reject) => {
+            getFlowSignal().addEventListener("abort", () => reject(new Error("aborted")))
+        })
+    })
+
+    const p = f()
+    expect(signal.aborted).toBe(false)
+    p.cancel()
+    expect(signal.aborted).toBe(true)
+    await expect(p).rejects.toBeInstanceOf(FlowCancellationError)
+})
+
+test("getFlowSignal can only be used within a flow", async () => {
+    expect(() => getFlowSignal()).toThrow(
+        "[MobX] 'getFlowSignal()' can only be called synchronously from within a flow"
+    )
+    const signals = []
+    const f = flow(function* () {
+        signals.push(getFlowSignal())
+        yield delay(10)
+        signals.push(getFlowSignal())
+    })
+    await Promise.all([f(), f()])
+    expect(signals.length).toBe(4)
+    expect(signals[0]).not.toBe(signals[1])
+    expect(signals).toContain(signals[0])
+    expect(new Set(signals).size).toBe(2)
+})
+
+test("flows can be cancelled through an AbortSignal", async () => {
+    const controller = new AbortController()
+    let nestedSignal
+    const nested = flow(function* () {
+        nestedSignal = getFlowSignal()
+        yield delay(100)
+    })
+    const f = flow(
+        function* () {
+            yield nested()
+        },
+        { signal: controller.signal }
+    )
+
+    const p1 = f()
+    const p2 = f()
+    controller.abort()
+
+    await expect(p1).rejects.toBeInstanceOf(FlowCancellationError)
+    await expect(p2).rejects.toBeInstanceOf(FlowCancellationError)
+    expect(nestedSignal.aborted).toBe(true)
+    await expect(f()).rejects.toBeInstanceOf(FlowCancellationError)
+})
+
+test("flow.tracked exposes the status per instance", async () => {
+    class Store {
+        constructor() {
+            makeObservable(this, { load: flow.tracked })
+        }
+        *load(value, shouldThrow = false) {
+            return yield delay(10, value, shouldThrow)
+        }
+    }
+    const store1 = new Store()
+    const store2 = new Store()
+    const status = getFlowStatus(store1, "load")
+    const events = []
+    const dispose = mobx.autorun(() =>
+        events.push([status.inFlight, status.isPending, status.error, status.result])
+    )
+
+    const p1 = store1.load(1)
+    const p2 = store1.load(2)
+    expect(getFlowStatus(store2, "load").isPending).toBe(false)
+    await Promise.all([p1, p2])
+    await expect(store1.load("error", true)).rejects.toBe("error")
+    const p3 = store1.load(3)
+    p3.cancel()
+    await expect(p3).rejects.toBeInstanceOf(FlowCancellationError)
+
+    expect(events).toEqual([
+        [0, false, undefined, undefined],
+        [1, true, undefined, undefined],
+        [2, true, undefined, undefined],
+        // the result of the first run is stale
+        [1, true, undefined, undefined],
+        [0, false, undefined, 2],
+        [1, true, undefined, 2],
+        [0, false, "error", 2],
+        [1, true, "error", 2],
+        [0, false, "error", 2]
+    ])
+    dispose()
+})
+
+test("flow.tracked can be used on observable objects", async () => {
+    const store = mobx.observable(
+        {
+            *load() {
+                yield delay(1)
+                return this.value
+            },
+            value: 1
+        },
+        { load: flow.tracked }
+    )
+    await store.load()
+    expect(getFlowStatus(store, "load").result).toBe(1)
+    const { load } = store
+    expect(() => load()).toThrow("[MobX] 'load' should be called as a method")
+    expect(() => getFlowStatus(store, "value")).toThrow(
+        "[MobX] 'value' is not annotated with 'flow.tracked'"
+    )
+})
+
+describe("flow concurrency", () => {
+    function createStore(annotation) {
+        const store = mobx.observable(
+            {
+                runs: [],
+                *load(value) {
+                    this.runs.push(value)
+                    yield delay(10)
+                    return value
+                }
+            },
+            { load: annotation }
+        )
+        return store
+    }
+
+    const settle = promise =>
+        promise.then(
+            value => value,
+            error => (isFlowCancellationError(error) ? "cancelled" : error)
+        )
+
+    test("latest cancels the previous run", async () => {
+        const store = createStore(flow.latest)
+        const other = createStore(flow.latest)
+        const results = Promise.all([
+            settle(store.load(1)),
+            settle(store.load(2)),
+            settle(other.load(3))
+        ])
+        expect(await results).toEqual(["cancelled", 2, 3])
+    })
+
+    test("drop ignores calls while running", async () => {
+        const store = createStore(flow.drop)
+        const p1 = store.load(1)
+        const p2 = store.load(2)
+        expect(p2).toBe(p1)
+        expect(await p2).toBe(1)
+        expect(await store.load(3)).toBe(3)
+        expect(store.runs).toEqual([1, 3])
+    })
+
+    test("queue runs one after another", async () => {
+        const store = createStore(flow.queue)
+        const p1 = store.load(1)
+        const p2 = store.load(2)
+        const p3 = store.load(3)
+        expect(store.runs).toEqual([1])
+        p2.cancel()
+        expect(await Promise.all([settle(p1), settle(p2), settle(p3)])).toEqual([1, "cancelled", 3])
+        expect(store.runs).toEqual([1, 3])
+    })
+
+    test("restartable debounces and restarts the run", async () => {
+        const store = createStore(flow.restartable({ debounce: 20 }))
+        const p1 = store.load(1)
+        await delay(10)
+        const p2 = store.load(2)
+        expect(store.runs).toEqual([])
+        await delay(25)
+        expect(store.runs).toEqual([2])
+        const p3 = store.load(3)
+        expect(await Promise.all([settle(p1), settle(p2), settle(p3)])).toEqual([
+            "cancelled",
+            "cancelled",
+            3
+        ])
+        expect(store.runs).toEqual([2, 3])
+    })
+
+    test("cancelling a debounced run clears its timer", () => {
+        jest.useFakeTimers()
+        try {
+            const store = createStore(flow.restartable({ debounce: 20 }))
+            const p1 = store.load(1)
+            const p2 = store.load(2)
+            expect(jest.getTimerCount()).toBe(1)
+            p2.cancel()
+            expect(jest.getTimerCount()).toBe(0)
+            jest.advanceTimersByTime(20)
+            expect(store.runs).toEqual([])
+            return expect(Promise.all([settle(p1), settle(p2)])).resolves.toEqual([
+                "cancelled",
+                "cancelled"
+            ])
+        } finally {
+            jest.useRealTimers()
+        }
+    })
+
+    test("concurrency annotations can be used in classes", async () => {
+        class Store {
+            constructor() {
+                makeObservable(this, {
+                    load: flow.restartable,
+                    save: flow.drop
+                })
+            }
+            *load(value) {
+                yield delay(1)
+                return value
+            }
+            *save(value) {
+                yield delay(1)
+                return value
+            }
+        }
+        const store = new Store()
+        expect(mobx.isFlow(store.load)).toBe(true)
+        expect(await Promise.all([settle(store.load(1)), settle(store.load(2))])).toEqual([
+            "cancelled",
+            2
+        ])
+        expect(await Promise.all([store.save(1), store.save(2)])).toEqual([1, 1])
+    })
+})
@@ -0,0 +1,121 @@
+import { action, autorun, configure, observable, spy } from "../../../src/mobx"
+
+afterEach(() => {
+    configure({ instrumentation: false })
+})
+
+function collectEvents() {
+    const events: any[] = []
+    const dispose = spy(event => events.push(event))
+    return { events, dispose }
+}
+
+test("spy works in production builds once instrumentation is enabled", () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {})
+    ;(global as any).__DEV__ = false
+    try {
+        const x = observable.box(1)
+        const noop = spy(() => {})
+        expect(warn).toHaveBeenCalledWith(
+            "[mobx.spy] Is a no-op in production builds, unless 'configure({ instrumentation: true })' is used"
+        )
+        noop()
+
+        configure({ instrumentation: true })
+        const { events, dispose } = collectEvents()
+        const increment = action("increment", () => x.set(x.get() + 1))
+        increment()
+        expect(events.map(e => e.type)).toEqual(["action", "update", "report-end", "report-end"])
+        expect(events[3].time).toEqual(expect.any(Number))
+        dispose()
+    } finally {
+        ;(global as any).__DEV__ = true
+        warn.mockRestore()
+    }
+})
+
+test("only events of the given types are reported", () => {
+    configure({ instrumentation: { types: ["action", "reaction"] } })
+    const x = observable.box(1)
+    const d = autorun(() => x.get(), { name: "autorun" })
+    const { events, dispose } = collectEvents()
+
+    action("increment", () => x.set(x.get() + 1))()
+    expect(events).toEqual([
+        expect.objectContaining({ type: "action", name: "increment", spyReportStart: true }),
+        expect.objectContaining({ type: "reaction", name: "autorun", spyReportStart: true }),
+        expect.objectContaining({ type: "report-end" }),
+        expect.objectContaining({ type: "report-end" })
+    ])
+    dispose()
+    d()
+})
+
+test("events within a sampled event are sampled as well", () => {
+    configure({ instrumentation: { sampleRate: 0.5 } })
+    const random = jest.spyOn(Math, "random")
+    try {
+        const x = observable.box(1)
+        const { events, dispose } = collectEvents()
+        const increment = action("increment", () => {
+            x.set(x.get() + 1)
+            x.set(x.get() + 1)
+        })
+
+        random.mockReturnValue(0.7)
+        increment()
+        expect(events).toEqual([])
+        expect(random).toHaveBeenCalledTimes(1)
+
+        random.mockReturnValue(0.2)
+        increment()
+        expect(events.map(e => e.type)).toEqual([
+            "action",
+            "update",
+            "report-end",
+            "update",
+            "report-end",
+            "report-end"
+        ])
+        expect(random).toHaveBeenCalledTimes(2)
+        dispose()
+    } finally {
+        random.mockRestore()
+    }
+})
+
+test("report-end events follow the decision of their start event", () => {
+    configure({ instrumentation: { sampleRate: 0.5 } })
+    const random = jest.spyOn(Math, "random")
+    try {
+        const x = observable.box(1)
+        const { events, dispose } = collectEvents()
+        let late: ReturnType<typeof collectEvents> | undefined
+        random.mockReturnValue(0.2)
+        action("increment", () => {
+            random.mockReturnValue(0.7)
+            configure({ instrumentation: { sampleRate: 0.5 } })
+            late = collectEvents()
+            x.set(x.get() + 1)
+            dispose()
+        })()
+        expect(events.map(e => e.type)).toEqual(["action", "update", "report-end"])
+        expect(late!.events.map(e => e.type)).toEqual(["update", "report-end", "report-end"])
+        late!.dispose()
+
+        // the next event is sampled again, as nothing is left on the stack of started events
+        const next = collectEvents()
+        action("increment", () => x.set(x.get() + 1))()
+        expect(random).toHaveBeenCalledTimes(2)
+        expect(next.events).toEqual([])
+        next.dispose()
+    } finally {
+        random.mockRestore()
+    }
+})
+
+test("sampleRate is validated", () => {
+    expect(() => configure({ instrumentation: { sampleRate: 2 } })).toThrow(
+        "[MobX] 'instrumentation.sampleRate' should be a number between 0 and 1"
+    )
+})
@@ -0,0 +1,149 @@
+import {
+    observable,
+    observeDeep,
+    runInAction,
+    IJsonPatch,
+    applyPatches,
+    remove,
+    set
+} from "../../../src/mobx"
+
+function collect(root: any) {
+    const events: IJsonPatch[][] = []
+    const dispose = observeDeep(root, patches => events.push(patches))
+    return { events, dispose }
+}
+
+test("observeDeep reports object changes as json patches", () => {
+    const o = observable({ a: 1, nested: { b: 2 } as any })
+    const { events } = collect(o)
+
+    o.a = 2
+    o.nested.b = 3
+    set(o.nested, "c", { d: 4 })
+    o.nested.c.d = 5
+    remove(o.nested, "b")
+
+    expect(events).toEqual([
+        [{ op: "replace", path: "/a", value: 2, oldValue: 1 }],
+        [{ op: "replace", path: "/nested/b", value: 3, oldValue: 2 }],
+        [{ op: "add", path: "/nested/c", value: { d: 4 } }],
+        [{ op: "replace", path: "/nested/c/d", value: 5, oldValue: 4 }],
+        [{ op: "remove", path: "/nested/b", oldValue: 3 }]
+    ])
+})
+
+test("observeDeep groups patches per outermost batch", () => {
+    const o = observable({ a: 1, b: 1 })
+    const { events } = collect(o)
+
+    runInAction(() => {
+        o.a = 2
+        runInAction(() => {
+            o.b = 2
+        })
+        expect(events).toEqual([])
+    })
+
+    expect(events).toEqual([
+        [
+            { op: "replace", path: "/a", value: 2, oldValue: 1 },
+            { op: "replace", path: "/b", value: 2, oldValue: 1 }
+        ]
+    ])
+})
+
+test("observeDeep keeps track of array indices", () => {
+    const todos = observable([{ title: "a" }, { title: "b" }, { title: "c" }])
+    const { events } = collect(todos)
+
+    todos.splice(0, 1)
+    todos[1].title = "C"
+    todos.unshift({ title: "x" }, { title: "y" })
+    todos[3].title = "CC"
+
+    expect(events).toEqual([
+        [{ op: "remove", path: "/0", oldValue: { title: "a" } }],
+        [{ op: "replace", path: "/1/title", value: "C", oldValue: "c" }],
+        [
+            { op: "add", path: "/0", value: { title: "x" } },
+            { op: "add", path: "/1", value: { title: "y" } }
+        ],
+        [{ op: "replace", path: "/3/title", value: "CC", oldValue: "C" }]
+    ])
+})
+
+test("observeDeep stops observing removed nodes", () => {
+    const o = observable({ child: { x: 1 } })
+    const child = o.child
+    const { events } = collect(o)
+
+    o.child = { x: 2 }
+    child.x = 3
+    o.child.x = 4
+
+    expect(events).toEqual([
+        [{ op: "replace", path: "/child", value: { x: 2 }, oldValue: { x: 1 } }],
+        [{ op: "replace", path: "/child/x", value: 4, oldValue: 2 }]
+    ])
+})
+
+test("observeDeep supports maps and sets", () => {
+    const store = observable({
+        users: new Map<string, any>([["a/b", { name: "A" }]]),
+        tags: new Set<string>()
+    })
+    const { events } = collect(store)
+
+    store.users.get("a/b").name = "B"
+    store.users.set("c", { name: "C" })
+    store.users.delete("a/b")
+    store.tags.add("x")
+    store.tags.delete("x")
+
+    expect(events).toEqual([
+        [{ op: "replace", path: "/users/a~1b/name", value: "B", oldValue: "A" }],
+        [{ op: "add", path: "/users/c", value: { name: "C" } }],
+        [{ op: "remove", path: "/users/a~1b", oldValue: { name: "B" } }],
+        [{ op: "add", path: "/tags/x", value: "x" }],
+        [{ op: "remove", path: "/tags/x", oldValue: "x" }]
+    ])
+})
+
+test("patches of sets with object members can't be applied", () => {
+    const store = observable({ tags: new Set<any>() })
+    const { events } = collect(store)
+    const tag = { name: "x" }
+    store.tags.add(tag)
+    store.tags.delete(store.tags.values().next().value)
+
+    const target = observable({ tags: new Set<any>([{ name: "x" }]) })
+    expect(() => applyPatches(target, events[0])).toThrow(
+        "[MobX] Cannot apply patch to '/tags/[object Object]', set members that are objects cannot be addressed by a JSON pointer"
+    )
+    expect(() => applyPatches(target, events[1])).toThrow(/cannot be addressed/)
+    expect(target.tags.size).toBe(1)
+})
+
+test("observeDeep can be disposed", () => {
+    const o = observable({ a: { b: 1 } })
+    const { events, dispose } = collect(o)
+
+    dispose()
+    o.a.b = 2
+
+    expect(events).toEqual([])
+})
+
+test("observeDeep doesn't allow the same node twice in a tree", () => {
+    const o = observable({ a: { b: 1 }, c: null as any })
+    collect(o)
+
+    expect(() => {
+        o.c = o.a
+    }).toThrow(/The same observable cannot appear twice/)
+})
+
+test("observeDeep requires an observable collection", () => {
+    expect(() => observeDeep({}, () => {})).toThrow(/can only be used on observable/)
+})
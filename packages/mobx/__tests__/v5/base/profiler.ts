@@ -0,0 +1,108 @@
+import { autorun, computed, observable, reaction, startProfiling } from "../../../src/mobx"
+
+test("records the runs of computed values and reactions", () => {
+    const x = observable.box(1)
+    const y = observable.box(1)
+    const isLarge = computed(() => x.get() > 10, { name: "isLarge" })
+    const d1 = autorun(() => [isLarge.get(), y.get()], { name: "autorun" })
+    const d2 = reaction(
+        () => x.get() % 2,
+        () => {},
+        { name: "reaction" }
+    )
+
+    const profiler = startProfiling()
+    x.set(2)
+    x.set(4)
+    x.set(11)
+    y.set(2)
+    const { derivations, duration } = profiler.stop()
+    x.set(12)
+
+    expect(duration).toBeGreaterThanOrEqual(0)
+    const byName = Object.fromEntries(derivations.map(d => [d.name, d]))
+    expect(byName.isLarge).toMatchObject({
+        kind: "computed",
+        runs: 3,
+        unchangedRuns: 2,
+        dependencies: 1
+    })
+    expect(byName.autorun).toMatchObject({
+        kind: "reaction",
+        runs: 2,
+        unchangedRuns: 0,
+        dependencies: 2
+    })
+    expect(byName.reaction).toMatchObject({ kind: "reaction", runs: 3, unchangedRuns: 1 })
+    d1()
+    d2()
+})
+
+test("derivations are sorted by the time spent in them", () => {
+    let time = 0
+    const performanceNow = jest.spyOn(performance, "now").mockImplementation(() => time)
+    try {
+        const x = observable.box(1)
+        const fast = autorun(() => x.get(), { name: "fast" })
+        const slow = autorun(
+            () => {
+                x.get()
+                time += x.get() * 10
+            },
+            { name: "slow" }
+        )
+
+        const profiler = startProfiling()
+        x.set(2)
+        x.set(1)
+        const profile = profiler.stop()
+        expect(profile.derivations).toMatchObject([
+            { name: "slow", runs: 2, totalTime: 30, maxTime: 20 },
+            { name: "fast", runs: 2, totalTime: 0, maxTime: 0 }
+        ])
+        fast()
+        slow()
+    } finally {
+        performanceNow.mockRestore()
+    }
+})
+
+test("exports the runs in the Chrome trace event format", () => {
+    const x = observable.box(1)
+    const double = computed(() => x.get() * 2, { name: "double" })
+    const dispose = autorun(() => double.get(), { name: "autorun" })
+
+    const profiler = startProfiling()
+    x.set(2)
+    const trace = JSON.parse(profiler.stop().toChromeTrace())
+    expect(trace.traceEvents).toEqual([
+        expect.objectContaining({ name: "double", cat: "computed", ph: "X", args: {} }),
+        expect.objectContaining({ name: "autorun", cat: "reaction", ph: "X", args: {} })
+    ])
+    expect(trace.traceEvents[0].ts).toEqual(expect.any(Number))
+    expect(trace.traceEvents[0].dur).toEqual(expect.any(Number))
+    dispose()
+})
+
+test("only one profiler can run at a time", () => {
+    const profiler = startProfiling()
+    expect(() => startProfiling()).toThrow(
+        "[MobX] 'startProfiling()' can't be used while another profiler is running"
+    )
+    profiler.stop()
+    startProfiling().stop()
+})
+
+test("marks the runs that didn't change the value in the trace", () => {
+    const x = observable.box(1)
+    const isPositive = computed(() => x.get() > 0, { name: "isPositive" })
+    const dispose = autorun(() => isPositive.get())
+
+    const profiler = startProfiling()
+    x.set(2)
+    const trace = JSON.parse(profiler.stop().toChromeTrace())
+    expect(trace.traceEvents).toEqual([
+        expect.objectContaining({ name: "isPositive", args: { unchanged: true } })
+    ])
+    dispose()
+})
@@ -0,0 +1,119 @@
+import {
+    autorun,
+    configure,
+    createMobxRuntime,
+    observable,
+    reaction,
+    runInAction,
+    when
+} from "../../../src/mobx"
+
+let idleCallbacks: (() => void)[] = []
+
+beforeEach(() => {
+    idleCallbacks = []
+    configure({ idleReactionScheduler: f => idleCallbacks.push(f) })
+})
+
+function runIdleCallbacks() {
+    idleCallbacks.splice(0).forEach(f => f())
+}
+
+test("reactions run in order of priority", () => {
+    const x = observable.box(1)
+    const events: string[] = []
+    const disposers = [
+        autorun(() => events.push("normal " + x.get())),
+        autorun(() => events.push("idle " + x.get()), { priority: "idle" }),
+        reaction(
+            () => x.get(),
+            value => events.push("high " + value),
+            { priority: "high" }
+        ),
+        autorun(() => events.push("sync " + x.get()), { priority: "sync" })
+    ]
+    runIdleCallbacks()
+    events.splice(0)
+
+    x.set(2)
+    expect(events).toEqual(["sync 2", "high 2", "normal 2"])
+    runIdleCallbacks()
+    expect(events).toEqual(["sync 2", "high 2", "normal 2", "idle 2"])
+    disposers.forEach(dispose => dispose())
+})
+
+test("reactions with a higher priority that are triggered by other reactions run first", () => {
+    const x = observable.box(1)
+    const y = observable.box(1)
+    const events: string[] = []
+    const disposers = [
+        autorun(() => {
+            events.push("normal 1: " + x.get())
+            runInAction(() => y.set(x.get()))
+        }),
+        autorun(() => events.push("normal 2: " + x.get())),
+        autorun(() => events.push("high: " + y.get()), { priority: "high" })
+    ]
+    events.splice(0)
+
+    x.set(2)
+    expect(events).toEqual(["normal 1: 2", "high: 2", "normal 2: 2"])
+    disposers.forEach(dispose => dispose())
+})
+
+test("sync reactions skip a deferring reaction scheduler", () => {
+    const runtime = createMobxRuntime()
+    const scheduled: (() => void)[] = []
+    const runScheduled = () => scheduled.splice(0).forEach(f => f())
+    const x = runtime.run(() => {
+        configure({ reactionScheduler: f => scheduled.push(f) })
+        return observable.box(1)
+    })
+    const events: string[] = []
+    const disposers = runtime.run(() => [
+        autorun(() => events.push("normal " + x.get())),
+        autorun(() => events.push("sync " + x.get()), { priority: "sync" })
+    ])
+    runScheduled()
+    events.splice(0)
+
+    runtime.run(() => x.set(2))
+    expect(events).toEqual(["sync 2"])
+    runScheduled()
+    expect(events).toEqual(["sync 2", "normal 2"])
+
+    runtime.run(() => x.set(3))
+    expect(events).toEqual(["sync 2", "normal 2", "sync 3"])
+    runScheduled()
+    runtime.run(() => disposers.forEach(dispose => dispose()))
+})
+
+test("idle reactions are batched until the idle scheduler calls back", () => {
+    const x = observable.box(1)
+    const values: number[] = []
+    const dispose = autorun(() => values.push(x.get()), { priority: "idle" })
+
+    expect(values).toEqual([])
+    runIdleCallbacks()
+    expect(values).toEqual([1])
+
+    x.set(2)
+    x.set(3)
+    expect(idleCallbacks.length).toBe(1)
+    runIdleCallbacks()
+    expect(values).toEqual([1, 3])
+
+    x.set(4)
+    dispose()
+    runIdleCallbacks()
+    expect(values).toEqual([1, 3])
+})
+
+test("when supports priority", async () => {
+    const x = observable.box(1)
+    const promise = when(() => x.get() > 1, { priority: "idle" })
+    runIdleCallbacks()
+    x.set(2)
+    runIdleCallbacks()
+    await promise
+})
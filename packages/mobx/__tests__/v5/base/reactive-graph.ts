@@ -0,0 +1,168 @@
+import {
+    autorun,
+    computed,
+    diffReactiveGraphs,
+    getReactiveGraph,
+    makeObservable,
+    observable,
+    reactiveGraphToDot
+} from "../../../src/mobx"
+
+class Todo {
+    title = "a"
+    done = false
+
+    constructor() {
+        makeObservable(this, { title: observable, done: observable, label: computed })
+    }
+
+    get label() {
+        return this.done ? this.title + " (done)" : this.title
+    }
+}
+
+function getGraphOf(reactionName: string) {
+    // other test files may leave reactions behind, only look at the ones created here
+    const graph = getReactiveGraph()
+    const ids = new Set<string>()
+    const visit = (id: string) => {
+        if (!ids.has(id)) {
+            ids.add(id)
+            graph.edges.filter(edge => edge.from === id).forEach(edge => visit(edge.to))
+        }
+    }
+    visit(reactionName)
+    return {
+        nodes: graph.nodes.filter(node => ids.has(node.id)),
+        edges: graph.edges.filter(edge => ids.has(edge.from))
+    }
+}
+
+test("contains the live reactions and everything they depend on", () => {
+    const todo = new Todo()
+    const dispose = autorun(() => todo.label, { name: "render" })
+
+    const graph = getGraphOf("render")
+    expect(graph.nodes).toEqual([
+        {
+            id: "render",
+            name: "render",
+            kind: "reaction",
+            state: "up-to-date",
+            observers: 0,
+            dependencies: 1
+        },
+        expect.objectContaining({
+            name: expect.stringMatching(/^Todo@\d+\.label$/),
+            kind: "computed",
+            state: "up-to-date",
+            observers: 1,
+            dependencies: 2,
+            keepAlive: false,
+            property: "label"
+        }),
+        expect.objectContaining({ kind: "atom", observers: 1, dependencies: 0, property: "done" }),
+        expect.objectContaining({ kind: "atom", observers: 1, dependencies: 0, property: "title" })
+    ])
+    expect(graph.nodes[1].owner).toMatch(/^Todo@\d+$/)
+    expect(graph.edges).toEqual([
+        { from: "render", to: graph.nodes[1].id },
+        { from: graph.nodes[1].id, to: graph.nodes[2].id },
+        { from: graph.nodes[1].id, to: graph.nodes[3].id }
+    ])
+
+    dispose()
+    expect(getReactiveGraph().nodes.find(node => node.id === "render")).toBeUndefined()
+})
+
+test("nodes with the same name get a unique id", () => {
+    const x = observable.box(1, { name: "count" })
+    const y = observable.box(1, { name: "count" })
+    const dispose = autorun(() => x.get() + y.get(), { name: "sum" })
+    expect(getGraphOf("sum").nodes.map(node => node.id)).toEqual(["sum", "count", "count#2"])
+    dispose()
+})
+
+test("can be converted to the DOT format", () => {
+    const price = observable.box(1, { name: "price" })
+    const double = computed(() => price.get() * 2, { name: "double" })
+    const dispose = autorun(() => double.get(), { name: "log" })
+    expect(reactiveGraphToDot(getGraphOf("log"))).toBe(
+        [
+            "digraph mobx {",
+            '    "log" [shape=octagon];',
+            '    "double" [shape=box];',
+            '    "price" [shape=ellipse];',
+            '    "log" -> "double";',
+            '    "double" -> "price";',
+            "}"
+        ].join("\n")
+    )
+    dispose()
+})
+
+test("two graphs can be compared", () => {
+    const x = observable.box(1, { name: "x" })
+    const y = observable.box(1, { name: "y" })
+    const d1 = autorun(() => x.get(), { name: "first" })
+    const before = getReactiveGraph()
+
+    const d2 = autorun(() => x.get() + y.get(), { name: "second" })
+    d1()
+    const diff = diffReactiveGraphs(before, getReactiveGraph())
+    expect(diff).toEqual({
+        addedNodes: [
+            expect.objectContaining({ id: "second" }),
+            expect.objectContaining({ id: "y", observers: 1 })
+        ],
+        removedNodes: [expect.objectContaining({ id: "first" })],
+        changedNodes: [],
+        addedEdges: [
+            { from: "second", to: "x" },
+            { from: "second", to: "y" }
+        ],
+        removedEdges: [{ from: "first", to: "x" }]
+    })
+    d2()
+})
+
+test("changed nodes are reported", () => {
+    const z = observable.box(1, { name: "z" })
+    const d1 = autorun(() => z.get(), { name: "third" })
+    const before = getReactiveGraph()
+    const d2 = autorun(() => z.get(), { name: "fourth" })
+    const { changedNodes } = diffReactiveGraphs(before, getReactiveGraph())
+    expect(changedNodes).toEqual([
+        {
+            before: expect.objectContaining({ id: "z", observers: 1 }),
+            after: expect.objectContaining({ id: "z", observers: 2 })
+        }
+    ])
+    d1()
+    d2()
+})
+
+test("owner and property are taken from the observable object, not from the name", () => {
+    const order = observable(
+        {
+            price: 2,
+            amount: 3,
+            get total() {
+                return this.price * this.amount
+            }
+        },
+        { total: computed({ name: "order total" }) },
+        { name: "order" }
+    )
+    const box = observable.box(1, { name: "cart.count" })
+    const dispose = autorun(() => order.total + box.get(), { name: "summary" })
+    const nodes = getGraphOf("summary").nodes
+    expect(nodes.map(({ id, owner, property }) => ({ id, owner, property }))).toEqual([
+        { id: "summary", owner: undefined, property: undefined },
+        { id: "order total", owner: "order", property: "total" },
+        { id: "cart.count", owner: undefined, property: undefined },
+        { id: "order.price", owner: "order", property: "price" },
+        { id: "order.amount", owner: "order", property: "amount" }
+    ])
+    dispose()
+})
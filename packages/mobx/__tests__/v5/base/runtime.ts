@@ -0,0 +1,233 @@
+import {
+    _getGlobalState,
+    autorun,
+    computed,
+    configure,
+    createMobxRuntime,
+    createVirtualScheduler,
+    observable,
+    runInAction,
+    spy
+} from "../../../src/mobx"
+
+test("a runtime has its own global state", () => {
+    const runtime = createMobxRuntime()
+    const defaultState = _getGlobalState()
+    const runtimeState = runtime.run(() => _getGlobalState())
+    expect(runtimeState).not.toBe(defaultState)
+    expect(runtime.run(() => _getGlobalState())).toBe(runtimeState)
+    expect(_getGlobalState()).toBe(defaultState)
+
+    runtime.run(() =>
+        runInAction(() => {
+            expect(runtimeState.inBatch).toBe(1)
+            expect(defaultState.inBatch).toBe(0)
+        })
+    )
+})
+
+test("the global state is restored when run throws", () => {
+    const defaultState = _getGlobalState()
+    expect(() =>
+        createMobxRuntime().run(() => {
+            throw new Error("oops")
+        })
+    ).toThrow("oops")
+    expect(_getGlobalState()).toBe(defaultState)
+})
+
+test("reactions are scheduled and run by their own runtime", () => {
+    const runtime = createMobxRuntime()
+    const x = runtime.run(() => observable.box(1))
+    const values: number[] = []
+    const runtimeEvents: string[] = []
+    const defaultEvents: string[] = []
+    const disposeDefaultSpy = spy(event => defaultEvents.push(event.type))
+    const disposeRuntimeSpy = runtime.run(() => spy(event => runtimeEvents.push(event.type)))
+    const dispose = runtime.run(() => autorun(() => values.push(x.get())))
+    expect(values).toEqual([1])
+
+    x.set(2)
+    expect(values).toEqual([1, 2])
+    expect(runtimeEvents).toContain("reaction")
+    expect(defaultEvents).not.toContain("reaction")
+
+    dispose()
+    disposeDefaultSpy()
+    disposeRuntimeSpy()
+})
+
+test("reactions that observe another runtime are only run by their own runtime", async () => {
+    const runtime = createMobxRuntime()
+    const runtimeState = runtime.run(() => _getGlobalState())
+    const x = observable.box(1)
+    const values: number[] = []
+    const dispose = runtime.run(() => autorun(() => values.push(x.get())))
+
+    runInAction(() => {
+        x.set(2)
+        x.set(3)
+    })
+    expect(values).toEqual([1])
+    expect(runtimeState.pendingReactions.length).toBe(1)
+    expect(_getGlobalState().pendingReactions).toEqual([])
+    await Promise.resolve()
+    expect(values).toEqual([1, 3])
+
+    // unless the runtime is in a batch, which flushes them once it ends
+    runtime.run(() =>
+        runInAction(() => {
+            x.set(4)
+            expect(values).toEqual([1, 3])
+        })
+    )
+    expect(values).toEqual([1, 3, 4])
+    dispose()
+})
+
+test("observables and computed values belong to the runtime they were created in", async () => {
+    const runtime = createMobxRuntime()
+    const runtimeState = runtime.run(() => _getGlobalState())
+    const { x, states } = runtime.run(() => {
+        const x = observable.box(1)
+        const states = computed(() => [x.get(), _getGlobalState()] as const)
+        return { x, states }
+    })
+    const runtimeValues: number[] = []
+    const dispose = runtime.run(() => autorun(() => runtimeValues.push(x.get())))
+    const values: any[] = []
+    const disposeDefault = autorun(() => values.push(states.get()))
+    expect(values).toEqual([[1, runtimeState]])
+
+    // the change is made outside of the runtime, but batched and propagated by it
+    x.set(2)
+    expect(runtimeValues).toEqual([1, 2])
+    expect(values.length).toBe(1)
+    await Promise.resolve()
+    expect(values[1]).toEqual([2, runtimeState])
+    dispose()
+    disposeDefault()
+})
+
+test("delayed reactions run in their own runtime", () => {
+    jest.useFakeTimers()
+    try {
+        const runtime = createMobxRuntime()
+        const runtimeState = runtime.run(() => _getGlobalState())
+        const x = runtime.run(() => observable.box(1))
+        const states: any[] = []
+        const dispose = runtime.run(() =>
+            autorun(
+                () => {
+                    x.get()
+                    states.push(_getGlobalState())
+                },
+                { delay: 10 }
+            )
+        )
+        jest.advanceTimersByTime(10)
+        x.set(2)
+        jest.advanceTimersByTime(10)
+        expect(states).toEqual([runtimeState, runtimeState])
+        dispose()
+    } finally {
+        jest.useRealTimers()
+    }
+})
+
+test("reactions outside of a runtime triggered inside of it run in the default runtime", () => {
+    const runtime = createMobxRuntime()
+    const x = observable.box(1)
+    const values: number[] = []
+    const dispose = autorun(() => values.push(x.get()))
+
+    runtime.run(() => runInAction(() => x.set(2)))
+    expect(values).toEqual([1, 2])
+    dispose()
+})
+
+test("configure only affects the current runtime", () => {
+    const runtime = createMobxRuntime()
+    runtime.run(() => configure({ enforceActions: "always" }))
+    const x = observable.box(1)
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {})
+    try {
+        x.set(2)
+        expect(warn).not.toHaveBeenCalled()
+        runtime.run(() => x.set(3))
+        expect(warn).toHaveBeenCalledTimes(1)
+    } finally {
+        warn.mockRestore()
+    }
+})
+
+test("reaction schedulers configured in a runtime only schedule its own reactions", () => {
+    const runtime = createMobxRuntime()
+    const scheduled: string[] = []
+    runtime.run(() =>
+        configure({
+            reactionScheduler: run => {
+                scheduled.push("reactions")
+                run()
+            },
+            idleReactionScheduler: run => {
+                scheduled.push("idle")
+                run()
+            }
+        })
+    )
+    const x = observable.box(1)
+    const values: number[] = []
+    const dispose = autorun(() => values.push(x.get()))
+    x.set(2)
+    expect(values).toEqual([1, 2])
+    expect(scheduled).toEqual([])
+
+    const y = runtime.run(() => observable.box(1))
+    const disposeRuntime = runtime.run(() =>
+        autorun(() => values.push(y.get()), { priority: "idle" })
+    )
+    expect(scheduled).toEqual(["reactions", "idle"])
+    expect(values).toEqual([1, 2, 1])
+    dispose()
+    disposeRuntime()
+})
+
+test("a virtual scheduler only controls the runtime it is installed in", () => {
+    const runtime = createMobxRuntime()
+    const scheduler = createVirtualScheduler()
+    const other = createVirtualScheduler()
+    runtime.run(() => configure({ reactionScheduler: scheduler }))
+    // installing a scheduler in the default runtime doesn't dispose the one of the runtime
+    configure({ reactionScheduler: other })
+    try {
+        const x = observable.box(1)
+        const values: number[] = []
+        const dispose = autorun(() => values.push(x.get()), { delay: 10 })
+        other.advanceBy(10)
+        expect(values).toEqual([1])
+        x.set(2)
+        expect(scheduler.pendingCount).toBe(0)
+        other.advanceBy(10)
+        expect(values).toEqual([1, 2])
+        const y = runtime.run(() => observable.box(1))
+        const disposeRuntime = runtime.run(() => autorun(() => values.push(y.get())))
+        expect(scheduler.pendingCount).toBe(1)
+        scheduler.flush()
+        expect(values).toEqual([1, 2, 1])
+        expect(() => configure({ reactionScheduler: scheduler })).toThrow(
+            "[MobX] A virtual scheduler can only be installed in one runtime"
+        )
+        dispose()
+        disposeRuntime()
+    } finally {
+        scheduler.dispose()
+        other.dispose()
+    }
+})
+
+test("isolateGlobalState can't be used inside a runtime", () => {
+    expect(() => createMobxRuntime().run(() => configure({ isolateGlobalState: true }))).toThrow(
+        "[MobX] isolateGlobalState cannot be used inside 'runtime.run()'"
+    )
+})
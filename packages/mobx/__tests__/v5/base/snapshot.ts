@@ -0,0 +1,127 @@
+import {
+    observable,
+    getSnapshot,
+    applySnapshot,
+    computed,
+    autorun,
+    comparer,
+    makeObservable,
+    isObservableObject,
+    observe
+} from "../../../src/mobx"
+
+test("getSnapshot returns a plain copy", () => {
+    const o = observable({ a: 1, list: [{ b: 2 }], map: new Map([["x", 1]]) })
+    const snapshot = getSnapshot(o)
+
+    expect(snapshot).toEqual({ a: 1, list: [{ b: 2 }], map: new Map([["x", 1]]) })
+    expect(isObservableObject(snapshot)).toBe(false)
+    expect(() => getSnapshot({})).toThrow(/can only be used on observable/)
+})
+
+test("applySnapshot restores a snapshot", () => {
+    const o = observable({ a: 1, list: [{ b: 2 }], map: new Map<string, any>([["x", 1]]) })
+    const snapshot = getSnapshot(o)
+
+    o.a = 2
+    o.list.push({ b: 3 })
+    o.list[0].b = 4
+    o.map.set("y", 2)
+    ;(o as any).extra = true
+
+    applySnapshot(o, snapshot)
+    expect(getSnapshot(o)).toEqual(snapshot)
+})
+
+test("applySnapshot keeps the identity of nested observables", () => {
+    const o = observable({ user: { name: "a", age: 1 }, todos: [{ title: "x" }, { title: "y" }] })
+    const user = o.user
+    const firstTodo = o.todos[0]
+
+    applySnapshot(o, { user: { name: "b", age: 1 }, todos: [{ title: "z" }] })
+
+    expect(o.user).toBe(user)
+    expect(o.todos[0]).toBe(firstTodo)
+    expect(getSnapshot(o)).toEqual({ user: { name: "b", age: 1 }, todos: [{ title: "z" }] })
+})
+
+test("applySnapshot only updates members that differ", () => {
+    const o = observable({ a: 1, nested: { b: [1, 2] }, c: 3 })
+    const changes: any[] = []
+    observe(o, change => changes.push(change.name))
+    observe(o.nested, change => changes.push(change.name))
+
+    applySnapshot(o, { a: 1, nested: { b: [1, 2] }, c: 4 })
+
+    expect(changes).toEqual(["c"])
+})
+
+test("applySnapshot runs in a single batch and preserves computeds", () => {
+    class Store {
+        first = "a"
+        last = "b"
+        constructor() {
+            makeObservable(this, { first: observable, last: observable, full: computed })
+        }
+        get full() {
+            return this.first + this.last
+        }
+    }
+    const store = new Store()
+    const values: string[] = []
+    autorun(() => values.push(store.full))
+
+    applySnapshot(store, { first: "c", last: "d", full: "ignored" })
+
+    expect(values).toEqual(["ab", "cd"])
+    expect(store.full).toBe("cd")
+})
+
+test("applySnapshot supports maps and sets", () => {
+    const map = observable.map<string, any>({ a: { x: 1 }, b: 2 })
+    const a = map.get("a")
+    applySnapshot(map, { a: { x: 2 }, c: 3 })
+    expect(map.get("a")).toBe(a)
+    expect(getSnapshot(map)).toEqual(
+        new Map<string, any>([
+            ["a", { x: 2 }],
+            ["c", 3]
+        ])
+    )
+
+    const set = observable.set([1, 2, 3])
+    applySnapshot(set, [2, 3, 4])
+    expect(Array.from(set)).toEqual([2, 3, 4])
+})
+
+test("applySnapshot only compares the object members of sets structurally", () => {
+    const structural = jest.spyOn(comparer, "structural")
+    try {
+        const set = observable.set<any>([1, "a", { x: 1 }, { y: 1 }])
+        const [, , x] = Array.from(set)
+        applySnapshot(set, [2, "a", { x: 1 }, { y: 2 }])
+        expect(getSnapshot(set)).toEqual(new Set([2, "a", { x: 1 }, { y: 2 }]))
+        expect(Array.from(set)).toContain(x)
+        expect(structural).toHaveBeenCalled()
+        // primitives are matched without structural comparisons
+        structural.mock.calls.forEach(([a, b]) => {
+            expect(typeof a).toBe("object")
+            expect(typeof b).toBe("object")
+        })
+    } finally {
+        structural.mockRestore()
+    }
+})
+
+test("applySnapshot works on non-proxied objects and arrays", () => {
+    const o = observable({ list: [1, 2, 3] }, {}, { proxy: false })
+    applySnapshot(o, { list: [3] })
+    expect(getSnapshot(o)).toEqual({ list: [3] })
+})
+
+test("applySnapshot validates the snapshot", () => {
+    expect(() => applySnapshot(observable([1]), { a: 1 })).toThrow(
+        /doesn't match the type of the target/
+    )
+    expect(() => applySnapshot({}, {})).toThrow(/can only be used on observable/)
+})
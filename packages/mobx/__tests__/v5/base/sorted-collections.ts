@@ -0,0 +1,228 @@
+import {
+    IReactionChange,
+    autorun,
+    computed,
+    getAtom,
+    getDebugName,
+    isObservableArray,
+    isObservableObject,
+    isObservableSortedArray,
+    isObservableSortedMap,
+    observable,
+    observe,
+    reaction,
+    runInAction,
+    toJS
+} from "../../../src/mobx"
+
+const byNumber = (a: number, b: number) => a - b
+
+test("sortedArray keeps its items sorted", () => {
+    const numbers = observable.sortedArray(byNumber, [5, 1, 3])
+    expect(isObservableSortedArray(numbers)).toBe(true)
+    expect(isObservableArray(numbers)).toBe(false)
+    expect(numbers.slice()).toEqual([1, 3, 5])
+
+    expect(numbers.add(4)).toBe(2)
+    expect(numbers.add(0)).toBe(0)
+    expect(numbers.add(9)).toBe(5)
+    expect(numbers.slice()).toEqual([0, 1, 3, 4, 5, 9])
+    expect(numbers.length).toBe(6)
+    expect(numbers.first()).toBe(0)
+    expect(numbers.last()).toBe(9)
+    expect(numbers.at(-2)).toBe(5)
+    expect(Array.from(numbers)).toEqual([0, 1, 3, 4, 5, 9])
+
+    expect(numbers.remove(3)).toBe(true)
+    expect(numbers.remove(3)).toBe(false)
+    expect(numbers.removeAt(0)).toBe(0)
+    expect(numbers.slice()).toEqual([1, 4, 5, 9])
+    expect(numbers.clear()).toEqual([1, 4, 5, 9])
+    expect(numbers.first()).toBe(undefined)
+})
+
+test("sortedArray keeps equal items in the order they were added", () => {
+    const a = { score: 1, name: "a" }
+    const b = { score: 2, name: "b" }
+    const c = { score: 1, name: "c" }
+    const scores = observable.sortedArray<typeof a>((x, y) => x.score - y.score, [b, a], {
+        deep: false
+    })
+    scores.add(c)
+    expect(scores.map(item => item.name)).toEqual(["a", "c", "b"])
+    expect(scores.indexOf(c)).toBe(1)
+    expect(scores.indexOf({ score: 1, name: "c" })).toBe(-1)
+    expect(scores.includes(b)).toBe(true)
+})
+
+test("sortedArray range", () => {
+    const numbers = observable.sortedArray(byNumber, [1, 2, 2, 3, 5, 8])
+    expect(numbers.range(2, 5)).toEqual([2, 2, 3])
+    expect(numbers.range(4)).toEqual([5, 8])
+    expect(numbers.range(6, 4)).toEqual([])
+})
+
+test("sortedArray is tracked", () => {
+    const numbers = observable.sortedArray(byNumber, [3, 1])
+    const top = computed(() => numbers.last())
+    const values: Array<number | undefined> = []
+    const dispose = autorun(() => values.push(top.get()))
+    numbers.add(2)
+    numbers.add(4)
+    numbers.remove(4)
+    expect(values).toEqual([3, 4, 3])
+    dispose()
+})
+
+test("sortedArray reports splices", () => {
+    const numbers = observable.sortedArray(byNumber, [1, 5])
+    const changes: any[] = []
+    const dispose = observe(numbers, change => changes.push(change), true)
+    numbers.add(3)
+    numbers.remove(1)
+    numbers.replace([2, 1])
+    expect(changes).toMatchObject([
+        { type: "splice", observableKind: "array", index: 0, added: [1, 5], removedCount: 0 },
+        { type: "splice", index: 1, added: [3], addedCount: 1, removed: [], removedCount: 0 },
+        { type: "splice", index: 0, added: [], removed: [1], removedCount: 1 },
+        { type: "splice", index: 0, added: [1, 2], removed: [3, 5] }
+    ])
+    expect(changes[1].object).toBe(numbers)
+    dispose()
+})
+
+test("sortedArray only makes its items observable when deep is true", () => {
+    const byId = (a: { id: number }, b: { id: number }) => a.id - b.id
+    expect(isObservableObject(observable.sortedArray(byId, [{ id: 1 }]).first())).toBe(false)
+    expect(
+        isObservableObject(observable.sortedArray(byId, [{ id: 1 }], { deep: true }).first())
+    ).toBe(true)
+})
+
+test("sortedArray items are repositioned by removing and adding them again", () => {
+    const byPoints = (a: { points: number }, b: { points: number }) => a.points - b.points
+    const scores = observable.sortedArray(byPoints, [
+        { name: "a", points: 1 },
+        { name: "b", points: 2 },
+        { name: "c", points: 3 }
+    ])
+    const a = scores.first()!
+    scores.remove(a)
+    a.points = 4
+    expect(scores.add(a)).toBe(2)
+    expect(scores.slice().map(score => score.name)).toEqual(["b", "c", "a"])
+    expect(scores.indexOf(a)).toBe(2)
+})
+
+test("sortedMap keeps its keys sorted", () => {
+    const map = observable.sortedMap(byNumber, [
+        [3, "c"],
+        [1, "a"]
+    ])
+    expect(isObservableSortedMap(map)).toBe(true)
+    map.set(2, "b")
+    map.set(1, "A")
+    expect(Array.from(map.keys())).toEqual([1, 2, 3])
+    expect(Array.from(map.values())).toEqual(["A", "b", "c"])
+    expect(map.size).toBe(3)
+    expect(map.get(2)).toBe("b")
+    expect(map.has(4)).toBe(false)
+    expect(map.indexOf(3)).toBe(2)
+    expect(map.first()).toEqual([1, "A"])
+    expect(map.last()).toEqual([3, "c"])
+    expect(map.range(2, 3)).toEqual([[2, "b"]])
+    expect(map.range(2)).toEqual([
+        [2, "b"],
+        [3, "c"]
+    ])
+
+    expect(map.delete(2)).toBe(true)
+    expect(map.delete(2)).toBe(false)
+    expect(map.toJSON()).toEqual([
+        [1, "A"],
+        [3, "c"]
+    ])
+    map.clear()
+    expect(map.size).toBe(0)
+})
+
+test("sortedMap uses the compare function to find keys", () => {
+    const byDay = (a: Date, b: Date) => a.toDateString().localeCompare(b.toDateString())
+    const map = observable.sortedMap<Date, number>(byDay)
+    map.set(new Date(2020, 1, 1, 10), 1)
+    map.set(new Date(2020, 1, 1, 12), 2)
+    expect(map.size).toBe(1)
+    expect(map.get(new Date(2020, 1, 1))).toBe(2)
+})
+
+test("sortedMap tracks values per key", () => {
+    const map = observable.sortedMap(byNumber, [
+        [1, "a"],
+        [2, "b"]
+    ])
+    const firstValues: Array<string | undefined> = []
+    const sizes: number[] = []
+    const d1 = autorun(() => firstValues.push(map.get(1)))
+    const d2 = autorun(() => sizes.push(map.size))
+    map.set(2, "B")
+    map.set(1, "A")
+    map.set(3, "c")
+    map.delete(1)
+    expect(firstValues).toEqual(["a", "A", "A", undefined])
+    expect(sizes).toEqual([2, 3, 2])
+    d1()
+    d2()
+})
+
+test("sortedMap reports splices and updates of its entries", () => {
+    const map = observable.sortedMap<number, string>(byNumber, [[5, "e"]])
+    const changes: any[] = []
+    const dispose = observe(map, change => changes.push(change))
+    map.set(1, "a")
+    map.set(5, "E")
+    map.delete(1)
+    expect(changes).toMatchObject([
+        { type: "splice", observableKind: "array", index: 0, added: [[1, "a"]], removed: [] },
+        { type: "update", index: 1, newValue: [5, "E"], oldValue: [5, "e"] },
+        { type: "splice", index: 0, added: [], removed: [[1, "a"]] }
+    ])
+    expect(changes[0].object).toBe(map)
+    dispose()
+})
+
+test("sorted collection changes are collected", () => {
+    const numbers = observable.sortedArray(byNumber)
+    const calls: IReactionChange[][] = []
+    const dispose = reaction(
+        () => numbers.slice(),
+        (_value, _prev, _r, changes) => calls.push(changes),
+        { collectChanges: true }
+    )
+    runInAction(() => {
+        numbers.add(2)
+        numbers.add(1)
+    })
+    expect(calls).toMatchObject([
+        [
+            { type: "splice", index: 0, added: [2] },
+            { type: "splice", index: 0, added: [1] }
+        ]
+    ])
+    dispose()
+})
+
+test("toJS, getAtom and getDebugName of sorted collections", () => {
+    const numbers = observable.sortedArray(byNumber, [2, 1], { name: "numbers" })
+    const map = observable.sortedMap(byNumber, [[1, { a: 1 }]], { name: "map" })
+    expect(toJS(numbers)).toEqual([1, 2])
+    expect(Array.isArray(toJS(numbers))).toBe(true)
+    expect(toJS(map)).toEqual(new Map([[1, { a: 1 }]]))
+    expect(getDebugName(numbers)).toBe("numbers")
+    expect(getDebugName(getAtom(map, 1))).toBe("map.1")
+    expect(() => getAtom(map, 2)).toThrow(
+        "[MobX] the entry '2' does not exist in the observable map 'map'"
+    )
+    expect(() => observable.sortedArray(undefined as any)).toThrow(
+        "[MobX] A sorted collection expects a compare function as first argument"
+    )
+})
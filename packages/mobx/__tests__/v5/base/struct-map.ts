@@ -0,0 +1,137 @@
+import { autorun, getAtom, observable, observe, toJS } from "../../../src/mobx"
+
+test("structMap compares keys structurally", () => {
+    const grid = observable.structMap<[number, number], string>([[[0, 0], "origin"]])
+    expect(grid.get([0, 0])).toBe("origin")
+    expect(grid.has([0, 1])).toBe(false)
+
+    grid.set([0, 1], "a")
+    grid.set([0, 1], "b")
+    expect(grid.size).toBe(2)
+    expect(grid.get([0, 1])).toBe("b")
+    expect(grid.delete([0, 0])).toBe(true)
+    expect(Array.from(grid.keys())).toEqual([[0, 1]])
+})
+
+test("structMap ignores the order of object keys and keeps the first key", () => {
+    const key = { x: 1, y: 2 }
+    const map = observable.structMap<object, number>([[key, 1]])
+    map.set({ y: 2, x: 1 }, 2)
+    expect(map.size).toBe(1)
+    expect(Array.from(map.keys())[0]).toBe(key)
+    expect(map.get({ y: 2, x: 1 })).toBe(2)
+
+    map.set({ x: "1", y: 2 }, 3)
+    map.set({ at: new Date(10) }, 4)
+    expect(map.size).toBe(3)
+    expect(map.get({ at: new Date(10) })).toBe(4)
+})
+
+test("structMap compares other objects by reference", () => {
+    class Point {}
+    const point = new Point()
+    const map = observable.structMap<unknown, number>([[point, 1]])
+    expect(map.has(new Point())).toBe(false)
+    expect(map.get(point)).toBe(1)
+    expect(map.has([new Point()])).toBe(false)
+})
+
+test("structMap doesn't confuse structural keys with primitives", () => {
+    const map = observable.structMap<unknown, string>([
+        [[1, 2], "array"],
+        ["[1,2]", "string"],
+        [1, "number"],
+        ["1", "string of number"],
+        [null, "null"],
+        ["null", "string of null"],
+        [{ a: 1 }, "object"],
+        ['{"a":1}', "string of object"]
+    ])
+    expect(map.size).toBe(8)
+    expect(map.get([1, 2])).toBe("array")
+    expect(map.get("[1,2]")).toBe("string")
+    expect(map.get(1)).toBe("number")
+    expect(map.get("1")).toBe("string of number")
+    expect(map.get(null)).toBe("null")
+    expect(map.get({ a: 1 })).toBe("object")
+    expect(map.get('{"a":1}')).toBe("string of object")
+})
+
+test("keyHash decides which keys are the same", () => {
+    const map = observable.map<{ id: number; label?: string }, number>([], {
+        keyHash: key => key.id
+    })
+    map.set({ id: 1, label: "a" }, 1)
+    map.set({ id: 1 }, 2)
+    expect(toJS(map)).toEqual(new Map([[{ id: 1, label: "a" }, 2]]))
+})
+
+test("has() and get() are tracked per key", () => {
+    const map = observable.structMap<number[], string>()
+    const values: (string | undefined)[] = []
+    const dispose = autorun(() => values.push(map.get([1, 2])))
+
+    map.set([3, 4], "other")
+    map.set([1, 2], "a")
+    map.set([1, 2], "b")
+    map.delete([1, 2])
+    expect(values).toEqual([undefined, "a", "b", undefined])
+    expect(getAtom(map, [1, 2] as any)).toBeTruthy()
+    dispose()
+})
+
+test("changes are reported with the given key", () => {
+    const map = observable.structMap<number[], number>()
+    const changes: any[] = []
+    observe(map, change => changes.push({ ...change, object: undefined }))
+
+    map.set([1], 1)
+    map.set([1], 2)
+    map.delete([1])
+    expect(changes).toMatchObject([
+        { type: "add", name: [1], newValue: 1 },
+        { type: "update", name: [1], oldValue: 1, newValue: 2 },
+        { type: "delete", name: [1], oldValue: 2 }
+    ])
+})
+
+test("replace keeps the values of structurally equal keys", () => {
+    const map = observable.structMap([
+        [[1], observable({ count: 1 })],
+        [[2], observable({ count: 2 })]
+    ])
+    const first = map.get([1])
+    let keyChanges = 0
+    const dispose = autorun(() => {
+        map.size
+        keyChanges++
+    })
+
+    map.replace([
+        [[2], map.get([2])!],
+        [[1], first!]
+    ])
+    expect(map.get([1])).toBe(first)
+    expect(Array.from(map.keys())).toEqual([[2], [1]])
+    expect(keyChanges).toBe(2)
+    dispose()
+})
+
+test("replace with structurally equal keys in the same order doesn't change the keys", () => {
+    const map = observable.structMap([
+        [[1], "a"],
+        [[2], "b"]
+    ])
+    let keyChanges = 0
+    const dispose = autorun(() => {
+        Array.from(map.keys())
+        keyChanges++
+    })
+    map.replace([
+        [[1], "a"],
+        [[2], "c"]
+    ])
+    expect(keyChanges).toBe(1)
+    expect(map.get([2])).toBe("c")
+    dispose()
+})
@@ -363,7 +363,7 @@ test("json cycles when exporting maps as maps", function () {
 describe("recurseEverything set to true", function () {
     test("recurseEverything is no longer supported", () => {
         expect(() => mobx.toJS({}, { recurseEverything: true })).toThrowErrorMatchingInlineSnapshot(
-            `"[MobX] toJS no longer supports options"`
+            `"[MobX] toJS no longer supports the 'recurseEverything' option"`
         )
     })
 })
@@ -386,3 +386,93 @@ test("Correctly converts observable objects with computed values", () => {
     const j = mobx.toJS(c)
     expect(j).toMatchObject({ computedValue: "value" })
 })
+
+describe("toJS options", () => {
+    test("includeComputed", () => {
+        class Todo {
+            title = "a"
+            constructor() {
+                mobx.makeObservable(this, { title: observable, upperTitle: mobx.computed })
+            }
+            get upperTitle() {
+                return this.title.toUpperCase()
+            }
+        }
+        const store = observable({
+            todos: [new Todo()],
+            get count() {
+                return this.todos.length
+            }
+        })
+
+        expect(mobx.toJS(store)).toEqual({ todos: [{ title: "a" }] })
+        expect(mobx.toJS(store, { includeComputed: true })).toEqual({
+            todos: [{ title: "a", upperTitle: "A" }],
+            count: 1
+        })
+    })
+
+    test("converters", () => {
+        class Point {
+            constructor(x, y) {
+                this.x = x
+                this.y = y
+            }
+        }
+        const source = observable({
+            date: new Date(0),
+            point: new Point(1, 2),
+            map: new Map([["a", { b: 1 }]]),
+            tags: new Set(["x"])
+        })
+        const mapToObject = (map, convert) => {
+            const res = {}
+            map.forEach((value, key) => {
+                res[key] = convert(value)
+            })
+            return res
+        }
+
+        expect(
+            mobx.toJS(source, {
+                converters: [
+                    [Date, d => d.toISOString()],
+                    [Point, p => [p.x, p.y]],
+                    [Map, mapToObject],
+                    [Set, set => Array.from(set)]
+                ]
+            })
+        ).toEqual({
+            date: "1970-01-01T00:00:00.000Z",
+            point: [1, 2],
+            map: { a: { b: 1 } },
+            tags: ["x"]
+        })
+    })
+
+    test("maxDepth", () => {
+        const source = observable({ a: 1, b: { c: 2, d: { e: 3 } }, list: [[1]] })
+
+        expect(mobx.toJS(source, { maxDepth: 1 })).toEqual({ a: 1, b: undefined, list: undefined })
+        expect(mobx.toJS(source, { maxDepth: 2 })).toEqual({
+            a: 1,
+            b: { c: 2, d: undefined },
+            list: [undefined]
+        })
+        expect(mobx.toJS(source, { maxDepth: 3 })).toEqual(mobx.toJS(source))
+    })
+
+    test("detectCycles", () => {
+        const shared = { x: 1 }
+        const source = observable({ a: shared, b: shared, c: {} }, {}, { name: "root" })
+
+        expect(() => mobx.toJS(source, { detectCycles: true })).not.toThrow()
+
+        source.c.root = source
+        expect(() => mobx.toJS(source, { detectCycles: true })).toThrow(
+            "[MobX] toJS detected a cycle: 'root' contains itself"
+        )
+        const clone = mobx.toJS(source)
+        expect(clone.c.root).toBe(clone)
+    })
+})
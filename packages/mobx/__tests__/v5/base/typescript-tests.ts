@@ -10,6 +10,7 @@ import {
     IArrayDidChange,
     IArrayWillChange,
     IArrayWillSplice,
+    IArrayWillMove,
     IMapWillChange,
     ISetWillChange,
     IObservableValue,
@@ -2119,7 +2120,12 @@ test("TS - type inference of observe & intercept functions", () => {
         assert<IsExact<typeof argument, IArrayDidChange<number>>>(true)
     })
     mobx.intercept(regularArray, argument => {
-        assert<IsExact<typeof argument, IArrayWillChange<number> | IArrayWillSplice<number>>>(true)
+        assert<
+            IsExact<
+                typeof argument,
+                IArrayWillChange<number> | IArrayWillSplice<number> | IArrayWillMove<number>
+            >
+        >(true)
         return argument
     })
     // ObservableArray
@@ -2127,7 +2133,12 @@ test("TS - type inference of observe & intercept functions", () => {
         assert<IsExact<typeof argument, IArrayDidChange<number>>>(true)
     })
     mobx.intercept(observableArray, argument => {
-        assert<IsExact<typeof argument, IArrayWillChange<number> | IArrayWillSplice<number>>>(true)
+        assert<
+            IsExact<
+                typeof argument,
+                IArrayWillChange<number> | IArrayWillSplice<number> | IArrayWillMove<number>
+            >
+        >(true)
         return argument
     })
     // Object
@@ -0,0 +1,176 @@
+import {
+    action,
+    autorun,
+    createUndoManager,
+    observable,
+    runInAction,
+    toJS
+} from "../../../src/mobx"
+
+test("undo and redo object changes per action", () => {
+    const o = observable({ a: 1, nested: { b: 1 } })
+    const undoManager = createUndoManager(o)
+
+    runInAction(() => {
+        o.a = 2
+        o.nested.b = 2
+    })
+    o.a = 3
+
+    undoManager.undo()
+    expect(toJS(o)).toEqual({ a: 2, nested: { b: 2 } })
+    undoManager.undo()
+    expect(toJS(o)).toEqual({ a: 1, nested: { b: 1 } })
+    undoManager.redo()
+    expect(toJS(o)).toEqual({ a: 2, nested: { b: 2 } })
+    undoManager.redo()
+    expect(toJS(o)).toEqual({ a: 3, nested: { b: 2 } })
+})
+
+test("undo array splices and map deletions", () => {
+    const store = observable({
+        list: [1, 2, 3, 4],
+        users: new Map<any, any>([
+            ["a", { name: "A" }],
+            [1, { name: "B" }]
+        ])
+    })
+    const undoManager = createUndoManager(store)
+    const initial = toJS(store)
+
+    runInAction(() => {
+        store.list.splice(1, 2, 5)
+        store.list.unshift(0)
+        store.users.delete("a")
+        store.users.get(1).name = "C"
+        store.users.set("d", { name: "D" })
+    })
+    const changed = toJS(store)
+
+    undoManager.undo()
+    expect(toJS(store)).toEqual(initial)
+    undoManager.redo()
+    expect(toJS(store)).toEqual(changed)
+})
+
+test("canUndo and canRedo are observable", () => {
+    const o = observable({ a: 1 })
+    const undoManager = createUndoManager(o)
+    const events: string[] = []
+    autorun(() => events.push(`${undoManager.canUndo} ${undoManager.canRedo}`))
+
+    o.a = 2
+    o.a = 3
+    undoManager.undo()
+    undoManager.undo()
+    undoManager.redo()
+    o.a = 4
+    undoManager.clear()
+
+    expect(events).toEqual([
+        "false false",
+        "true false",
+        "true true",
+        "false true",
+        "true true",
+        "true false",
+        "false false"
+    ])
+})
+
+test("new changes clear the redo history", () => {
+    const o = observable({ a: 1 })
+    const undoManager = createUndoManager(o)
+
+    o.a = 2
+    undoManager.undo()
+    o.a = 3
+
+    expect(undoManager.canRedo).toBe(false)
+    undoManager.undo()
+    expect(o.a).toBe(1)
+    expect(undoManager.canUndo).toBe(false)
+})
+
+test("maxHistory drops the oldest entries", () => {
+    const o = observable({ a: 0 })
+    const undoManager = createUndoManager(o, { maxHistory: 2 })
+
+    o.a = 1
+    o.a = 2
+    o.a = 3
+    undoManager.undo()
+    undoManager.undo()
+    undoManager.undo()
+
+    expect(o.a).toBe(1)
+
+    undoManager.redo()
+    undoManager.redo()
+    undoManager.undo()
+    undoManager.undo()
+    undoManager.undo()
+    expect(o.a).toBe(1)
+})
+
+test("consecutive actions can be merged by name", () => {
+    const o = observable({ text: "", other: 0 })
+    const undoManager = createUndoManager(o, { mergeActions: name => name === "type" })
+    const type = action("type", (char: string) => {
+        o.text += char
+    })
+    const other = action("other", () => {
+        o.other++
+    })
+
+    type("a")
+    type("b")
+    other()
+    other()
+    type("c")
+
+    undoManager.undo()
+    expect(toJS(o)).toEqual({ text: "ab", other: 2 })
+    undoManager.undo()
+    expect(toJS(o)).toEqual({ text: "ab", other: 1 })
+    undoManager.undo()
+    undoManager.undo()
+    expect(toJS(o)).toEqual({ text: "", other: 0 })
+    expect(undoManager.canUndo).toBe(false)
+})
+
+test("undo manager can be disposed", () => {
+    const o = observable({ a: 1 })
+    const undoManager = createUndoManager(o)
+
+    undoManager.dispose()
+    o.a = 2
+
+    expect(undoManager.canUndo).toBe(false)
+})
+
+test("undo restores map keys that aren't strings", () => {
+    const key = { id: 1 }
+    const store = observable({
+        byNumber: new Map<number, string>([[1, "a"]]),
+        byObject: new Map<object, string>([[key, "b"]]),
+        members: new Set<object>([key])
+    })
+    const [member] = Array.from(store.members)
+    const undoManager = createUndoManager(store)
+
+    runInAction(() => {
+        store.byNumber.delete(1)
+        store.byObject.delete(key)
+        store.members.delete(member)
+    })
+    undoManager.undo()
+    expect(Array.from(store.byNumber.keys())).toEqual([1])
+    expect(Array.from(store.byObject.keys())[0]).toBe(key)
+    expect(store.members.has(member)).toBe(true)
+
+    undoManager.redo()
+    expect(store.byNumber.size).toBe(0)
+    expect(store.byObject.size).toBe(0)
+    expect(store.members.size).toBe(0)
+})
@@ -0,0 +1,162 @@
+import {
+    IVirtualScheduler,
+    autorun,
+    configure,
+    createVirtualScheduler,
+    flushReactions,
+    observable,
+    reaction,
+    runInAction,
+    when
+} from "../../../src/mobx"
+
+let scheduler: IVirtualScheduler
+
+beforeEach(() => {
+    scheduler = createVirtualScheduler()
+    configure({ reactionScheduler: scheduler })
+})
+
+afterEach(() => {
+    scheduler.dispose()
+})
+
+test("reactions only run when the scheduler is flushed", () => {
+    const x = observable.box(1)
+    const values: number[] = []
+    const dispose = autorun(() => values.push(x.get()))
+    expect(values).toEqual([])
+    expect(scheduler.pendingCount).toBe(1)
+
+    scheduler.flush()
+    expect(values).toEqual([1])
+    expect(scheduler.pendingCount).toBe(0)
+
+    x.set(2)
+    x.set(3)
+    expect(scheduler.pendingCount).toBe(1)
+    scheduler.flush()
+    expect(values).toEqual([1, 3])
+    dispose()
+})
+
+test("reactions run in the order they were triggered", () => {
+    const x = observable.box(1)
+    const y = observable.box(1)
+    const events: string[] = []
+    const d1 = autorun(() => events.push("x " + x.get()))
+    const d2 = autorun(() => events.push("y " + y.get()))
+    scheduler.flush()
+
+    y.set(2)
+    x.set(2)
+    scheduler.flush()
+    expect(events).toEqual(["x 1", "y 1", "y 2", "x 2"])
+    d1()
+    d2()
+})
+
+test("delay is controlled by the virtual clock", () => {
+    const x = observable.box(1)
+    const values: number[] = []
+    const dispose = reaction(
+        () => x.get(),
+        value => values.push(value),
+        { delay: 100 }
+    )
+    scheduler.flush()
+
+    x.set(2)
+    scheduler.flush()
+    expect(values).toEqual([])
+
+    scheduler.advanceBy(99)
+    expect(values).toEqual([])
+    scheduler.advanceBy(1)
+    expect(values).toEqual([2])
+    expect(scheduler.now).toBe(100)
+    dispose()
+})
+
+test("when timeout is controlled by the virtual clock", () => {
+    const x = observable.box(1)
+    const onError = jest.fn()
+    when(
+        () => x.get() > 5,
+        () => {},
+        { timeout: 50, onError }
+    )
+    scheduler.flush()
+
+    scheduler.advanceBy(49)
+    expect(onError).not.toHaveBeenCalled()
+    scheduler.advanceBy(1)
+    expect(onError).toHaveBeenCalledWith(new Error("WHEN_TIMEOUT"))
+})
+
+test("when timeout is cancelled once the predicate is met", () => {
+    const x = observable.box(1)
+    const effect = jest.fn()
+    const onError = jest.fn()
+    when(() => x.get() > 5, effect, { timeout: 50, onError })
+    scheduler.flush()
+
+    x.set(6)
+    scheduler.flush()
+    expect(effect).toHaveBeenCalledTimes(1)
+    expect(scheduler.pendingCount).toBe(0)
+    scheduler.advanceBy(100)
+    expect(onError).not.toHaveBeenCalled()
+})
+
+test("runNext runs one task at a time and moves the clock", () => {
+    const x = observable.box(1)
+    const events: string[] = []
+    const d1 = autorun(() => events.push("autorun " + x.get()))
+    const d2 = autorun(() => events.push("delayed " + x.get()), { delay: 10 })
+
+    expect(scheduler.runNext()).toBe(true)
+    expect(events).toEqual(["autorun 1"])
+    expect(scheduler.runNext()).toBe(true)
+    expect(events).toEqual(["autorun 1", "delayed 1"])
+    expect(scheduler.now).toBe(10)
+    expect(scheduler.runNext()).toBe(false)
+    d1()
+    d2()
+})
+
+test("flushReactions runs pending reactions right away", () => {
+    const x = observable.box(1)
+    const values: number[] = []
+    const dispose = autorun(() => values.push(x.get()))
+    flushReactions()
+    expect(values).toEqual([1])
+
+    x.set(2)
+    flushReactions()
+    expect(values).toEqual([1, 2])
+    expect(() => runInAction(() => flushReactions())).toThrow(
+        "[MobX] 'flushReactions()' can't be used inside a batch or reaction"
+    )
+    dispose()
+})
+
+test("installing another virtual scheduler replaces the previous one", () => {
+    const x = observable.box(1)
+    const values: number[] = []
+    const dispose = autorun(() => values.push(x.get()))
+    scheduler.flush()
+
+    const other = createVirtualScheduler()
+    configure({ reactionScheduler: other })
+    expect(scheduler.pendingCount).toBe(0)
+    x.set(2)
+    expect(other.pendingCount).toBe(1)
+    other.flush()
+    expect(values).toEqual([1, 2])
+    other.dispose()
+
+    x.set(3)
+    expect(values).toEqual([1, 2, 3])
+    dispose()
+})
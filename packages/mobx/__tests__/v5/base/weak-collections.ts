@@ -0,0 +1,216 @@
+import {
+    IReactionChange,
+    autorun,
+    configure,
+    getAtom,
+    getDebugName,
+    intercept,
+    isObservable,
+    isObservableObject,
+    isObservableWeakMap,
+    isObservableWeakSet,
+    observable,
+    observe,
+    reaction,
+    runInAction,
+    spy,
+    toJS
+} from "../../../src/mobx"
+
+test("weakMap tracks get and has per key", () => {
+    const a = {}
+    const b = {}
+    const map = observable.weakMap<object, number>([[a, 1]])
+    expect(isObservableWeakMap(map)).toBe(true)
+    expect(isObservable(map)).toBe(true)
+    expect(isObservableObject(map)).toBe(false)
+
+    const values: Array<number | undefined> = []
+    const hasB: boolean[] = []
+    const d1 = autorun(() => values.push(map.get(a)))
+    const d2 = autorun(() => hasB.push(map.has(b)))
+
+    map.set(a, 2)
+    map.set(b, 3)
+    map.set(b, 4)
+    map.delete(a)
+    map.delete(b)
+    expect(values).toEqual([1, 2, undefined])
+    expect(hasB).toEqual([false, true, false])
+
+    map.set(a, 5)
+    expect(values).toEqual([1, 2, undefined, 5])
+    d1()
+    d2()
+})
+
+test("weakMap values are made observable", () => {
+    const key = {}
+    const map = observable.weakMap<object, { count: number }>([[key, { count: 1 }]])
+    expect(isObservableObject(map.get(key))).toBe(true)
+
+    const refs = observable.weakMap<object, { count: number }>([], { deep: false })
+    const value = { count: 1 }
+    refs.set(key, value)
+    expect(refs.get(key)).toBe(value)
+})
+
+test("weakMap and weakSet refuse primitive keys", () => {
+    expect(() => observable.weakMap().set("a" as any, 1)).toThrow(
+        "[MobX] Invalid value used as weak map key: a"
+    )
+    expect(() => observable.weakSet().add(1 as any)).toThrow(
+        "[MobX] Invalid value used in weak set: 1"
+    )
+    expect(observable.weakMap().has("a" as any)).toBe(false)
+})
+
+test("weakSet tracks has per value", () => {
+    const a = {}
+    const b = {}
+    const set = observable.weakSet([a])
+    expect(isObservableWeakSet(set)).toBe(true)
+
+    const hasA: boolean[] = []
+    const hasB: boolean[] = []
+    const d1 = autorun(() => hasA.push(set.has(a)))
+    const d2 = autorun(() => hasB.push(set.has(b)))
+
+    set.add(b)
+    set.add(b)
+    expect(set.delete(a)).toBe(true)
+    expect(set.delete(a)).toBe(false)
+    expect(hasA).toEqual([true, false])
+    expect(hasB).toEqual([false, true])
+    d1()
+    d2()
+})
+
+test("weakSet doesn't make its values observable", () => {
+    const value = { x: 1 }
+    const set = observable.weakSet([value])
+    expect(set.has(value)).toBe(true)
+    expect(isObservable(value)).toBe(false)
+})
+
+test("observe and intercept weakMap", () => {
+    const key = {}
+    const map = observable.weakMap<object, number>()
+    const changes: any[] = []
+    const disposeObserver = observe(map, change => changes.push(change))
+    const disposeInterceptor = intercept(map, change => {
+        if (change.type !== "delete" && change.newValue! < 0) {
+            return null
+        }
+        if (change.type !== "delete") {
+            change.newValue = change.newValue! * 2
+        }
+        return change
+    })
+
+    map.set(key, 1)
+    map.set(key, -1)
+    map.set(key, 2)
+    map.delete(key)
+    expect(map.has(key)).toBe(false)
+    expect(changes).toMatchObject([
+        { type: "add", observableKind: "weakMap", name: key, newValue: 2 },
+        { type: "update", name: key, oldValue: 2, newValue: 4 },
+        { type: "delete", name: key, oldValue: 4 }
+    ])
+    expect(changes[0].object).toBe(map)
+    expect(() => observe(map, () => {}, true)).toThrow(/fireImmediately/)
+    disposeObserver()
+    disposeInterceptor()
+})
+
+test("observe and intercept weakSet", () => {
+    const a = {}
+    const b = {}
+    const set = observable.weakSet<object>()
+    const changes: any[] = []
+    const disposeObserver = observe(set, change => changes.push(change))
+    const disposeInterceptor = intercept(set, change =>
+        change.type === "add" && change.newValue === b ? null : change
+    )
+
+    set.add(a)
+    set.add(b)
+    set.delete(a)
+    expect(set.has(b)).toBe(false)
+    expect(changes).toMatchObject([
+        { type: "add", observableKind: "weakSet", newValue: a },
+        { type: "delete", oldValue: a }
+    ])
+    disposeObserver()
+    disposeInterceptor()
+})
+
+test("weak collection changes are reported to spy and collectChanges", () => {
+    const key = {}
+    const map = observable.weakMap<object, number>()
+    const set = observable.weakSet<object>()
+    const events: any[] = []
+    const disposeSpy = spy(event => {
+        if (event.type !== "report-end") {
+            events.push(event.type + ":" + (event as any).observableKind)
+        }
+    })
+    const calls: IReactionChange[][] = []
+    const disposeReaction = reaction(
+        () => [map.get(key), set.has(key)],
+        (_value, _prev, _r, changes) => calls.push(changes),
+        { collectChanges: true }
+    )
+
+    runInAction(() => {
+        map.set(key, 1)
+        set.add(key)
+    })
+    expect(calls).toEqual([
+        [
+            expect.objectContaining({ type: "add", observableKind: "weakMap", newValue: 1 }),
+            expect.objectContaining({ type: "add", observableKind: "weakSet", newValue: key })
+        ]
+    ])
+    expect(events).toContain("add:weakMap")
+    expect(events).toContain("add:weakSet")
+    disposeReaction()
+    disposeSpy()
+})
+
+test("weak collections respect enforceActions", () => {
+    configure({ enforceActions: "observed" })
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {})
+    try {
+        const key = {}
+        const map = observable.weakMap<object, number>()
+        const set = observable.weakSet<object>()
+        const dispose = autorun(() => [map.has(key), set.has(key)])
+        // entries that are not observed can be changed freely
+        map.set({}, 1)
+        set.add({})
+        expect(warn).not.toHaveBeenCalled()
+
+        map.set(key, 1)
+        set.add(key)
+        expect(warn).toHaveBeenCalledTimes(2)
+        expect(warn.mock.calls[0][0]).toMatch(/without using an action is not allowed/)
+        dispose()
+    } finally {
+        warn.mockRestore()
+        configure({ enforceActions: "never" })
+    }
+})
+
+test("getAtom, getDebugName and toJS of weak collections", () => {
+    const key = {}
+    const map = observable.weakMap<object, number>([[key, 1]], { name: "cache" })
+    const set = observable.weakSet<object>([key], { name: "seen" })
+    expect(getDebugName(map)).toBe("cache")
+    expect(getDebugName(getAtom(map, key as any))).toBe("cache.[object Object]")
+    expect(getDebugName(set)).toBe("seen")
+    expect(() => getAtom(set, {} as any)).toThrow(/does not exist/)
+    expect(toJS(map)).toBe(map)
+    expect(toJS({ set })).toEqual({ set })
+})
@@ -0,0 +1,245 @@
+import {
+    IJsonPatch,
+    deepEqual,
+    die,
+    executeAction,
+    has,
+    isObservableArray,
+    isObservableMap,
+    isObservableObject,
+    isObservableSet,
+    remove,
+    set,
+    stringifyKey,
+    toJS
+} from "../internal"
+
+/**
+ * Unescapes a JSON-Pointer (RFC 6901) and splits it into its segments
+ */
+export function splitJsonPointer(path: string): string[] {
+    if (path === "") {
+        return []
+    }
+    if (path[0] !== "/") {
+        die(`Invalid JSON pointer '${path}', expected it to start with '/'`)
+    }
+    return path
+        .slice(1)
+        .split("/")
+        .map(segment => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+}
+
+// Only primitives have a string form that identifies them
+function isAddressable(value: any): boolean {
+    return value === null || (typeof value !== "object" && typeof value !== "function")
+}
+
+// Paths only contain strings, but the map might be keyed by numbers etc.
+// Returns a key that is not in the map if the segment doesn't match any key.
+function findMapKey(map: Map<any, any>, segment: string): any {
+    if (map.has(segment)) {
+        return segment
+    }
+    for (const key of map.keys()) {
+        if (isAddressable(key) && stringifyKey(key) === segment) {
+            return key
+        }
+    }
+    return segment
+}
+
+function resolveMapKey(map: Map<any, any>, segment: string, patch: IJsonPatch): any {
+    const key = findMapKey(map, segment)
+    if (!map.has(key)) {
+        if (patch.op !== "add") {
+            die(`Cannot apply patch, path '${patch.path}' not found`)
+        }
+        // the type of a new key can't be derived from the path, so it is only added to maps with string keys
+        for (const existingKey of map.keys()) {
+            if (typeof existingKey !== "string") {
+                die(
+                    `Cannot apply patch to '${patch.path}', new keys can only be added to maps of which all keys are strings`
+                )
+            }
+        }
+    }
+    return key
+}
+
+function findSetValue(set: Set<any>, segment: string): any {
+    for (const value of set.values()) {
+        if (isAddressable(value) && stringifyKey(value) === segment) {
+            return value
+        }
+    }
+    return undefined
+}
+
+function resolveSetValue(set: Set<any>, segment: string, patch: IJsonPatch): any {
+    const value = findSetValue(set, segment)
+    if (!set.has(value)) {
+        die(`Cannot apply patch, path '${patch.path}' not found`)
+    }
+    return value
+}
+
+function parseArrayIndex(array: any[], segment: string, allowAppend: boolean): number {
+    if (allowAppend && segment === "-") {
+        return array.length
+    }
+    const index = Number(segment)
+    if (
+        !/^\d+$/.test(segment) ||
+        index > array.length ||
+        (!allowAppend && index === array.length)
+    ) {
+        die(`Invalid array index '${segment}'`)
+    }
+    return index
+}
+
+function getChild(parent: any, segment: string): any {
+    if (isObservableMap(parent)) {
+        return parent.get(findMapKey(parent, segment))
+    }
+    if (isObservableSet(parent)) {
+        return findSetValue(parent, segment)
+    }
+    if (Array.isArray(parent)) {
+        return parent[parseArrayIndex(parent, segment, false)]
+    }
+    if (parent !== null && typeof parent === "object") {
+        return parent[segment]
+    }
+    return undefined
+}
+
+function getValue(target: any, segments: string[]): any {
+    return segments.reduce((parent, segment, index) => {
+        const child = getChild(parent, segment)
+        if (child === undefined) {
+            die(`Cannot apply patch, path '/${segments.slice(0, index + 1).join("/")}' not found`)
+        }
+        return child
+    }, target)
+}
+
+function applyPatch(target: any, patch: IJsonPatch) {
+    if (patch.op === "test") {
+        if (!deepEqual(toJS(getValue(target, splitJsonPointer(patch.path))), patch.value)) {
+            die(`Test failed, the value at '${patch.path}' doesn't equal the expected value`)
+        }
+        return
+    }
+    if (patch.op === "copy") {
+        if (patch.from === undefined) {
+            die(`Cannot apply 'copy' to '${patch.path}', it has no 'from' path`)
+        }
+        applyPatch(target, {
+            op: "add",
+            path: patch.path,
+            value: toJS(getValue(target, splitJsonPointer(patch.from)))
+        })
+        return
+    }
+    const segments = splitJsonPointer(patch.path)
+    if (!segments.length) {
+        die(`Cannot apply '${patch.op}' to the root of the target`)
+    }
+    const key = segments.pop()!
+    const parent = getValue(target, segments)
+
+    if (isObservableArray(parent)) {
+        switch (patch.op) {
+            case "add":
+                parent.splice(parseArrayIndex(parent, key, true), 0, patch.value)
+                return
+            case "replace":
+                set(parent, parseArrayIndex(parent, key, false), patch.value)
+                return
+            case "remove":
+                parent.splice(parseArrayIndex(parent, key, false), 1)
+                return
+            case "move": {
+                const from = splitJsonPointer(patch.from || "")
+                if (
+                    from.length !== segments.length + 1 ||
+                    segments.some((segment, index) => segment !== from[index])
+                ) {
+                    die(
+                        `Cannot move from '${patch.from}' to '${patch.path}', items can only be moved within the same array`
+                    )
+                }
+                parent.move(
+                    parseArrayIndex(parent, from[from.length - 1], false),
+                    parseArrayIndex(parent, key, false)
+                )
+                return
+            }
+        }
+    } else if (isObservableMap(parent)) {
+        switch (patch.op) {
+            case "add":
+            case "replace":
+                parent.set(resolveMapKey(parent, key, patch), patch.value)
+                return
+            case "remove":
+                parent.delete(resolveMapKey(parent, key, patch))
+                return
+        }
+    } else if (isObservableSet(parent)) {
+        if (!isAddressable(patch.value) || !isAddressable(patch.oldValue)) {
+            die(
+                `Cannot apply patch to '${patch.path}', set members that are objects cannot be addressed by a JSON pointer`
+            )
+        }
+        switch (patch.op) {
+            case "replace":
+                parent.delete(resolveSetValue(parent, key, patch))
+            // fallthrough
+            case "add":
+                parent.add(patch.value)
+                return
+            case "remove":
+                parent.delete(resolveSetValue(parent, key, patch))
+                return
+        }
+    } else if (isObservableObject(parent)) {
+        if (patch.op !== "add" && !has(parent, key)) {
+            die(`Cannot apply patch, path '${patch.path}' not found`)
+        }
+        switch (patch.op) {
+            case "add":
+            case "replace":
+                set(parent, key, patch.value)
+                return
+            case "remove":
+                remove(parent, key)
+                return
+        }
+    } else {
+        die(`Cannot apply patch to '${patch.path}', the target is not an observable collection`)
+    }
+    die(`Unsupported patch operation '${patch.op}'`)
+}
+
+/**
+ * Applies JSON-Patch (RFC 6902) operations, for example the ones produced by `observeDeep`,
+ * to an observable object, array, map or set. All patches are applied in a single action.
+ * New values are created by the enhancer of the collection they are stored in.
+ *
+ * Paths can only address map keys and set members that are primitives, by their string form.
+ * New map keys are added as strings. Items can only be moved within the same array.
+ */
+export function applyPatches(target: Object, patches: ReadonlyArray<IJsonPatch>): void {
+    executeAction(
+        "applyPatches",
+        false,
+        () => {
+            patches.forEach(patch => applyPatch(target, patch))
+        },
+        undefined,
+        undefined
+    )
+}
@@ -3,7 +3,6 @@ import {
     IEqualsComparer,
     IReactionDisposer,
     IReactionPublic,
-    Lambda,
     Reaction,
     action,
     comparer,
@@ -12,7 +11,20 @@ import {
     isFunction,
     isPlainObject,
     die,
-    allowStateChanges
+    globalState,
+    allowStateChanges,
+    DerivationErrorRecovery,
+    ReactionPriority,
+    IDebounceOptions,
+    createEffectScheduler,
+    IArrayDidChange,
+    IMapDidChange,
+    IObjectDidChange,
+    ISetDidChange,
+    IWeakMapDidChange,
+    IWeakSetDidChange,
+    ISortedArrayDidChange,
+    ISortedMapDidChange
 } from "../internal"
 
 export interface IAutorunOptions {
@@ -24,7 +36,34 @@ export interface IAutorunOptions {
      */
     requiresObservable?: boolean
     scheduler?: (callback: () => void) => any
-    onError?: (error: any) => void
+    /**
+     * Handles errors thrown by the reaction.
+     * Can return `"rethrow"`, `"dispose"` or `{ retryAfter: milliseconds }` to decide how the reaction recovers.
+     */
+    onError?: (error: any) => DerivationErrorRecovery | void
+    /**
+     * Reactions with a higher priority run first, idle reactions run once the idle scheduler calls back.
+     * Defaults to "normal".
+     */
+    priority?: ReactionPriority
+    /**
+     * Runs the effect at most once per this many milliseconds, both on the first change and after the last one
+     */
+    throttle?: number
+    /**
+     * Runs the effect once no changes happened for this many milliseconds.
+     * Accepts `{ wait, leading, trailing, maxWait }` for more control.
+     */
+    debounce?: number | IDebounceOptions
+    /**
+     * Runs the effect at most once per animation frame
+     */
+    animationFrame?: boolean
+    /**
+     * Treats a function that is returned by the effect as a cleanup, like the ones registered with `onCleanup`.
+     * Defaults to `false`, so effects that happen to return a function keep working as before.
+     */
+    returnsCleanup?: boolean
 }
 
 /**
@@ -48,10 +87,14 @@ export function autorun(
 
     const name: string =
         opts?.name ?? (__DEV__ ? (view as any).name || "Autorun@" + getNextId() : "Autorun")
-    const runSync = !opts.scheduler && !opts.delay
+    const scheduler = createEffectScheduler(opts, () => {
+        if (!reaction.isDisposed_) {
+            reaction.track(reactionRunner)
+        }
+    })
     let reaction: Reaction
 
-    if (runSync) {
+    if (!scheduler) {
         // normal autorun
         reaction = new Reaction(
             name,
@@ -59,33 +102,27 @@ export function autorun(
                 this.track(reactionRunner)
             },
             opts.onError,
-            opts.requiresObservable
+            opts.requiresObservable,
+            opts.priority
         )
     } else {
-        const scheduler = createSchedulerFromOptions(opts)
         // debounced autorun
-        let isScheduled = false
-
         reaction = new Reaction(
             name,
-            () => {
-                if (!isScheduled) {
-                    isScheduled = true
-                    scheduler(() => {
-                        isScheduled = false
-                        if (!reaction.isDisposed_) {
-                            reaction.track(reactionRunner)
-                        }
-                    })
-                }
-            },
+            () => scheduler.schedule_(),
             opts.onError,
-            opts.requiresObservable
+            opts.requiresObservable,
+            opts.priority
         )
+        reaction.effectScheduler_ = scheduler
     }
 
     function reactionRunner() {
-        view(reaction)
+        reaction.runCleanups_()
+        const cleanup = view(reaction)
+        if (opts.returnsCleanup && typeof cleanup === "function") {
+            reaction.onCleanup(cleanup)
+        }
     }
 
     reaction.schedule_()
@@ -95,24 +132,30 @@ export function autorun(
 export type IReactionOptions<T, FireImmediately extends boolean> = IAutorunOptions & {
     fireImmediately?: FireImmediately
     equals?: IEqualsComparer<T>
+    /**
+     * Pass the changes of the observed arrays, maps, sets and objects since the last run of the effect,
+     * as the fourth argument of the effect
+     */
+    collectChanges?: boolean
 }
 
-const run = (f: Lambda) => f()
-
-function createSchedulerFromOptions(opts: IAutorunOptions) {
-    return opts.scheduler
-        ? opts.scheduler
-        : opts.delay
-        ? (f: Lambda) => setTimeout(f, opts.delay!)
-        : run
-}
+export type IReactionChange =
+    | IArrayDidChange
+    | IMapDidChange
+    | IObjectDidChange
+    | ISetDidChange
+    | IWeakMapDidChange
+    | IWeakSetDidChange
+    | ISortedArrayDidChange
+    | ISortedMapDidChange
 
 export function reaction<T, FireImmediately extends boolean = false>(
     expression: (r: IReactionPublic) => T,
     effect: (
         arg: T,
         prev: FireImmediately extends true ? T | undefined : T,
-        r: IReactionPublic
+        r: IReactionPublic,
+        changes: IReactionChange[]
     ) => void,
     opts: IReactionOptions<T, FireImmediately> = EMPTY_OBJECT
 ): IReactionDisposer {
@@ -125,15 +168,31 @@ export function reaction<T, FireImmediately extends boolean = false>(
         }
     }
     const name = opts.name ?? (__DEV__ ? "Reaction@" + getNextId() : "Reaction")
+    const runEffect = (value: T, oldValue: any, r: IReactionPublic) => {
+        ;(r as Reaction).runCleanups_()
+        const cleanup = effect(value, oldValue, r, (r as Reaction).takeChanges_())
+        if (opts.returnsCleanup && typeof cleanup === "function") {
+            r.onCleanup(cleanup)
+        }
+    }
     const effectAction = action(
         name,
-        opts.onError ? wrapErrorHandler(opts.onError, effect) : effect
+        opts.onError
+            ? wrapErrorHandler(error => {
+                  const recovery = r.reportExceptionInDerivation_(error)
+                  // a retried effect runs again, even though the value didn't change
+                  effectFailed = !!recovery && typeof recovery === "object"
+              }, runEffect)
+            : runEffect
+    )
+    const scheduler = createEffectScheduler(
+        opts,
+        () => reactionRunner(),
+        () => reactionRunner(true)
     )
-    const runSync = !opts.scheduler && !opts.delay
-    const scheduler = createSchedulerFromOptions(opts)
 
     let firstTime = true
-    let isScheduled = false
+    let effectFailed = false
     let value: T
     let oldValue: T | undefined
 
@@ -144,37 +203,46 @@ export function reaction<T, FireImmediately extends boolean = false>(
     const r = new Reaction(
         name,
         () => {
-            if (firstTime || runSync) {
+            if (firstTime || !scheduler) {
                 reactionRunner()
-            } else if (!isScheduled) {
-                isScheduled = true
-                scheduler!(reactionRunner)
+            } else {
+                scheduler.schedule_()
             }
         },
         opts.onError,
-        opts.requiresObservable
+        opts.requiresObservable,
+        opts.priority
     )
+    r.effectScheduler_ = scheduler
+    if (opts.collectChanges) {
+        r.collectChanges_()
+    }
 
-    function reactionRunner() {
-        isScheduled = false
+    function reactionRunner(skipEffect = false) {
         if (r.isDisposed_) {
             return
         }
         let changed: boolean = false
         r.track(() => {
             const nextValue = allowStateChanges(false, () => expression(r))
-            changed = firstTime || !equals(value, nextValue)
+            changed = firstTime || effectFailed || !equals(value, nextValue)
+            effectFailed = false
             oldValue = value
             value = nextValue
         })
 
         // This casting is nesessary as TS cannot infer proper type in current funciton implementation
         type OldValue = FireImmediately extends true ? T | undefined : T
-        if (firstTime && opts.fireImmediately!) {
+        if (skipEffect) {
+            // the run was dropped, the effect runs again on the next change
+        } else if (firstTime && opts.fireImmediately!) {
             effectAction(value, oldValue as OldValue, r)
         } else if (!firstTime && changed) {
             effectAction(value, oldValue as OldValue, r)
         }
+        if (!changed) {
+            globalState.profiler?.recordUnchangedRun_(r)
+        }
         firstTime = false
     }
 
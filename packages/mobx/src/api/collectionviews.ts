@@ -0,0 +1,469 @@
+import {
+    IArrayDidChange,
+    IObservableArray,
+    ISortedArrayDidChange,
+    Lambda,
+    ObservableMap,
+    ObservableSortedArray,
+    Reaction,
+    allowStateChanges,
+    binarySearch,
+    createObservableArray,
+    die,
+    getNextId,
+    isObservableArray,
+    isObservableSortedArray,
+    observe,
+    referenceEnhancer,
+    transaction,
+    untracked
+} from "../internal"
+
+export interface ICollectionViewOptions {
+    name?: string
+}
+
+export interface IArrayView<T> {
+    /**
+     * The items of the view, an observable array that is updated when the source changes.
+     * It should not be modified.
+     */
+    readonly items: readonly T[]
+    /**
+     * Stops updating the view
+     */
+    dispose(): void
+}
+
+export interface IGroupByView<K, T> {
+    /**
+     * The groups of the view, an observable map of observable arrays that is updated when the source changes.
+     * Empty groups are removed. It should not be modified.
+     */
+    readonly groups: ObservableMap<K, IObservableArray<T>>
+    /**
+     * Stops updating the view
+     */
+    dispose(): void
+}
+
+type ViewSource<T> = IObservableArray<T> | ObservableSortedArray<T>
+
+interface IViewEntry<T, R> {
+    item_: T
+    // the result of the function of the view for the item
+    result_: R
+    reaction_: Reaction
+    // the index of the item in the source, entries that are removed keep the index they had
+    index_: number
+}
+
+/**
+ * Keeps an entry for every item of the source array, with a reaction that runs the function of the view
+ * for that item only. Subclasses update their output based on the entries that are added, removed or changed.
+ * A change of the result of a single item only takes a logarithmic amount of work, splices of the source
+ * take a linear amount of work anyway, as the arrays are spliced.
+ */
+abstract class ArrayView<T, R> {
+    protected entries_: IViewEntry<T, R>[] = []
+    private disposer_: Lambda | undefined
+
+    constructor(private fn_: (item: T) => R, protected name_: string) {}
+
+    protected start_(source: ViewSource<T>) {
+        if (!isObservableArray(source) && !isObservableSortedArray(source)) {
+            die("Collection views expect an observable array as source")
+        }
+        this.disposer_ = observe(
+            source as any,
+            (change: IArrayDidChange<T> | ISortedArrayDidChange<T>) => {
+                switch (change.type) {
+                    case "update":
+                        return this.splice_(change.index, 1, [change.newValue])
+                    case "splice":
+                        return this.splice_(change.index, change.removedCount, change.added)
+                    case "move": {
+                        // the items in between keep their entries, as they are removed and added again
+                        const { index, fromIndex, toIndex } = change
+                        const end = Math.max(fromIndex, toIndex) + 1
+                        const items = this.entries_.slice(index, end).map(entry => entry.item_)
+                        items.splice(toIndex - index, 0, items.splice(fromIndex - index, 1)[0])
+                        return this.splice_(index, end - index, items)
+                    }
+                }
+            }
+        )
+        const items = untracked(() => source.slice())
+        this.splice_(0, 0, items)
+    }
+
+    private splice_(index: number, removedCount: number, added: readonly T[]) {
+        const removed = this.entries_.slice(index, index + removedCount)
+        // items that are removed and added again, e.g. when the source is sorted, keep their entry
+        const reusable = new Map<T, IViewEntry<T, R>[]>()
+        removed.forEach(entry => {
+            const entries = reusable.get(entry.item_)
+            if (entries) {
+                entries.push(entry)
+            } else {
+                reusable.set(entry.item_, [entry])
+            }
+        })
+        const addedEntries = added.map(
+            item => reusable.get(item)?.shift() || this.createEntry_(item)
+        )
+        reusable.forEach(entries => entries.forEach(entry => entry.reaction_.dispose()))
+        this.entries_.splice(index, removedCount, ...addedEntries)
+        for (let i = index; i < this.entries_.length; i++) {
+            this.entries_[i].index_ = i
+        }
+        this.update_(() => this.onSplice_(index, removed, addedEntries))
+    }
+
+    private createEntry_(item: T): IViewEntry<T, R> {
+        let isInitialized = false
+        const run = () => {
+            let result!: R
+            entry.reaction_.track(() => {
+                result = this.fn_(item)
+            })
+            const previous = entry.result_
+            entry.result_ = result
+            if (isInitialized && previous !== result) {
+                this.update_(() => this.onResultChange_(entry, previous))
+            }
+            isInitialized = true
+        }
+        const entry: IViewEntry<T, R> = {
+            item_: item,
+            result_: undefined as any,
+            reaction_: new Reaction(__DEV__ ? `${this.name_}.item` : "ArrayView.item", run),
+            index_: -1
+        }
+        run()
+        return entry
+    }
+
+    // the output is derived from the source, so it can always be changed
+    private update_(fn: Lambda) {
+        allowStateChanges(true, () => transaction(fn))
+    }
+
+    protected abstract onSplice_(
+        index: number,
+        removed: IViewEntry<T, R>[],
+        added: IViewEntry<T, R>[]
+    ): void
+
+    protected abstract onResultChange_(entry: IViewEntry<T, R>, previous: R): void
+
+    dispose() {
+        this.disposer_?.()
+        this.entries_.forEach(entry => entry.reaction_.dispose())
+        this.entries_ = []
+    }
+}
+
+function createOutputArray<T>(name: string): IObservableArray<T> {
+    return createObservableArray<T>([], referenceEnhancer, name)
+}
+
+/**
+ * A Fenwick tree that sums the values of the items of an array before an index.
+ * Only the sums of the first items are kept: after the items from an index on changed, the sums from
+ * there on are dropped, and they are computed again when they are needed.
+ */
+class PrefixSums {
+    // 1-based, the node at `i` holds the sum of the `i & -i` values up to and including value `i - 1`
+    private tree_ = [0]
+
+    constructor(private valueAt_: (index: number) => number) {}
+
+    // the sum of the values before `index`
+    sum_(index: number): number {
+        this.extend_(index)
+        let sum = 0
+        for (let i = index; i > 0; i -= i & -i) {
+            sum += this.tree_[i]
+        }
+        return sum
+    }
+
+    // the values that aren't summed yet will be read when they are needed
+    add_(index: number, delta: number) {
+        for (let i = index + 1; i < this.tree_.length; i += i & -i) {
+            this.tree_[i] += delta
+        }
+    }
+
+    truncate_(index: number) {
+        if (this.tree_.length > index + 1) {
+            this.tree_.length = index + 1
+        }
+    }
+
+    private extend_(length: number) {
+        for (let i = this.tree_.length; i <= length; i++) {
+            let sum = this.valueAt_(i - 1)
+            for (let j = i - 1, start = i - (i & -i); j > start; j -= j & -j) {
+                sum += this.tree_[j]
+            }
+            this.tree_.push(sum)
+        }
+    }
+}
+
+class FilterView<T> extends ArrayView<T, boolean> implements IArrayView<T> {
+    readonly items: IObservableArray<T>
+    // the amount of items in the output before an index of the source
+    private outputIndices_ = new PrefixSums(index => (this.entries_[index].result_ ? 1 : 0))
+
+    constructor(source: ViewSource<T>, predicate: (item: T) => unknown, name: string) {
+        super(item => !!predicate(item), name)
+        this.items = createOutputArray(name)
+        this.start_(source)
+    }
+
+    protected onSplice_(
+        index: number,
+        removed: IViewEntry<T, boolean>[],
+        added: IViewEntry<T, boolean>[]
+    ) {
+        this.outputIndices_.truncate_(index)
+        this.items.spliceWithArray(
+            this.outputIndices_.sum_(index),
+            removed.filter(entry => entry.result_).length,
+            added.filter(entry => entry.result_).map(entry => entry.item_)
+        )
+    }
+
+    protected onResultChange_(entry: IViewEntry<T, boolean>) {
+        const index = this.outputIndices_.sum_(entry.index_)
+        if (entry.result_) {
+            this.outputIndices_.add_(entry.index_, 1)
+            this.items.splice(index, 0, entry.item_)
+        } else {
+            this.outputIndices_.add_(entry.index_, -1)
+            this.items.splice(index, 1)
+        }
+    }
+}
+
+class MapView<T, R> extends ArrayView<T, R> implements IArrayView<R> {
+    readonly items: IObservableArray<R>
+
+    constructor(source: ViewSource<T>, mapper: (item: T) => R, name: string) {
+        super(mapper, name)
+        this.items = createOutputArray(name)
+        this.start_(source)
+    }
+
+    protected onSplice_(index: number, removed: IViewEntry<T, R>[], added: IViewEntry<T, R>[]) {
+        this.items.spliceWithArray(
+            index,
+            removed.length,
+            added.map(entry => entry.result_)
+        )
+    }
+
+    protected onResultChange_(entry: IViewEntry<T, R>) {
+        this.items[entry.index_] = entry.result_
+    }
+}
+
+function defaultCompare(a: any, b: any): number {
+    return a < b ? -1 : a > b ? 1 : 0
+}
+
+class SortedView<T, K> extends ArrayView<T, K> implements IArrayView<T> {
+    readonly items: IObservableArray<T>
+    // the entries in the order of the items, entries with the same key are in the order in which they were inserted
+    private sorted_: IViewEntry<T, K>[] = []
+    // the order in which the entries were inserted, so that an entry can be found among the entries with the same key
+    private insertions_ = new Map<IViewEntry<T, K>, number>()
+    private insertionCount_ = 0
+
+    constructor(
+        source: ViewSource<T>,
+        sortBy: (item: T) => K,
+        private compare_: (a: K, b: K) => number,
+        name: string
+    ) {
+        super(sortBy, name)
+        this.items = createOutputArray(name)
+        this.start_(source)
+    }
+
+    protected onSplice_(_index: number, removed: IViewEntry<T, K>[], added: IViewEntry<T, K>[]) {
+        if (!this.sorted_.length) {
+            // Array.prototype.sort is stable, so items with the same key keep the order of the source
+            added.forEach(entry => this.insertions_.set(entry, this.insertionCount_++))
+            this.sorted_ = added.slice().sort((a, b) => this.compare_(a.result_, b.result_))
+            this.items.replace(this.sorted_.map(entry => entry.item_))
+            return
+        }
+        const removedEntries = new Set(removed)
+        const addedEntries = new Set(added)
+        // entries that are both removed and added keep their key, so they don't move
+        removed.forEach(entry => !addedEntries.has(entry) && this.remove_(entry, entry.result_))
+        added.forEach(entry => !removedEntries.has(entry) && this.insert_(entry))
+    }
+
+    protected onResultChange_(entry: IViewEntry<T, K>, previous: K) {
+        this.remove_(entry, previous)
+        this.insert_(entry)
+    }
+
+    // the index of an entry that has the given key in `sorted_`
+    private indexOf_(entry: IViewEntry<T, K>, key: K): number {
+        const insertion = this.insertions_.get(entry)!
+        return binarySearch(
+            this.sorted_,
+            key,
+            (other, key) =>
+                this.compare_(other === entry ? key : other.result_, key) ||
+                this.insertions_.get(other)! - insertion,
+            false
+        )
+    }
+
+    private remove_(entry: IViewEntry<T, K>, key: K) {
+        const index = this.indexOf_(entry, key)
+        this.insertions_.delete(entry)
+        this.sorted_.splice(index, 1)
+        this.items.splice(index, 1)
+    }
+
+    // items are added after the items with the same key
+    private insert_(entry: IViewEntry<T, K>) {
+        this.insertions_.set(entry, this.insertionCount_++)
+        const index = this.indexOf_(entry, entry.result_)
+        this.sorted_.splice(index, 0, entry)
+        this.items.splice(index, 0, entry.item_)
+    }
+}
+
+class GroupByView<T, K> extends ArrayView<T, K> implements IGroupByView<K, T> {
+    readonly groups: ObservableMap<K, IObservableArray<T>>
+    // the entries of every group, in the order of the source
+    private groupEntries_ = new Map<K, IViewEntry<T, K>[]>()
+
+    constructor(source: ViewSource<T>, keyFn: (item: T) => K, name: string) {
+        super(keyFn, name)
+        this.groups = new ObservableMap<K, IObservableArray<T>>(undefined, referenceEnhancer, name)
+        this.start_(source)
+    }
+
+    protected onSplice_(index: number, removed: IViewEntry<T, K>[], added: IViewEntry<T, K>[]) {
+        // the removed entries keep their index, which is at least `index`, as is the index of the entries after them
+        removed.forEach(entry => this.remove_(entry.result_, index))
+        added.forEach(entry => this.insert_(entry))
+    }
+
+    protected onResultChange_(entry: IViewEntry<T, K>, previous: K) {
+        this.remove_(previous, entry.index_)
+        this.insert_(entry)
+    }
+
+    // the entries of a group are in the order of the source, so an entry is found by its index in the source
+    private positionOf_(entries: IViewEntry<T, K>[], index: number): number {
+        return binarySearch(entries, index, (entry, index) => entry.index_ - index, false)
+    }
+
+    // removes the first entry of the group of `key` that has an index of at least `index`
+    private remove_(key: K, index: number) {
+        const entries = this.groupEntries_.get(key)!
+        const position = this.positionOf_(entries, index)
+        entries.splice(position, 1)
+        if (entries.length) {
+            this.groups.get(key)!.splice(position, 1)
+        } else {
+            this.groupEntries_.delete(key)
+            this.groups.delete(key)
+        }
+    }
+
+    private insert_(entry: IViewEntry<T, K>) {
+        const key = entry.result_
+        let entries = this.groupEntries_.get(key)
+        if (!entries) {
+            entries = []
+            this.groupEntries_.set(key, entries)
+            this.groups.set(
+                key,
+                createOutputArray(__DEV__ ? `${this.name_}.${String(key)}` : "GroupByView.group")
+            )
+        }
+        const position = this.positionOf_(entries, entry.index_)
+        entries.splice(position, 0, entry)
+        this.groups.get(key)!.splice(position, 0, entry.item_)
+    }
+}
+
+/**
+ * Creates an array of the items of `source` for which `predicate` returns a truthy value.
+ * The predicate only runs again for the items that are added, or of which the observables it read changed.
+ */
+export function filterView<T>(
+    source: ViewSource<T>,
+    predicate: (item: T) => unknown,
+    options?: ICollectionViewOptions
+): IArrayView<T> {
+    return new FilterView(
+        source,
+        predicate,
+        options?.name || (__DEV__ ? "FilterView@" + getNextId() : "FilterView")
+    )
+}
+
+/**
+ * Creates an array with the result of `mapper` for every item of `source`.
+ * The result for an item is kept as long as the item is part of the source, even if it moves,
+ * the mapper only runs again when the observables it read changed.
+ */
+export function mapView<T, R>(
+    source: ViewSource<T>,
+    mapper: (item: T) => R,
+    options?: ICollectionViewOptions
+): IArrayView<R> {
+    return new MapView(
+        source,
+        mapper,
+        options?.name || (__DEV__ ? "MapView@" + getNextId() : "MapView")
+    )
+}
+
+/**
+ * Creates a map from the result of `keyFn` to the items of `source` with that key, in the order of the source.
+ * `keyFn` only runs again for the items that are added, or of which the observables it read changed.
+ */
+export function groupByView<T, K>(
+    source: ViewSource<T>,
+    keyFn: (item: T) => K,
+    options?: ICollectionViewOptions
+): IGroupByView<K, T> {
+    return new GroupByView(
+        source,
+        keyFn,
+        options?.name || (__DEV__ ? "GroupByView@" + getNextId() : "GroupByView")
+    )
+}
+
+/**
+ * Creates an array of the items of `source`, sorted by the result of `sortBy`.
+ * `sortBy` only runs again for the items that are added, or of which the observables it read changed,
+ * after which only those items are moved.
+ */
+export function sortedView<T, K>(
+    source: ViewSource<T>,
+    sortBy: (item: T) => K,
+    compareFn: (a: K, b: K) => number = defaultCompare,
+    options?: ICollectionViewOptions
+): IArrayView<T> {
+    return new SortedView(
+        source,
+        sortBy,
+        compareFn,
+        options?.name || (__DEV__ ? "SortedView@" + getNextId() : "SortedView")
+    )
+}
@@ -0,0 +1,178 @@
+import {
+    ObservableValue,
+    Reaction,
+    createAction,
+    createEffectScheduler,
+    getNextId,
+    isFunction,
+    onBecomeObserved,
+    onBecomeUnobserved,
+    referenceEnhancer
+} from "../internal"
+
+export type ComputedAsyncState = "pending" | "fulfilled" | "rejected"
+
+type ComputedAsyncUpdate = (runId: number, state: ComputedAsyncState, value: any) => void
+
+export interface IComputedAsyncOptions<T> {
+    name?: string
+    /**
+     * The value until the first result is available
+     */
+    initialValue?: T
+    /**
+     * Wait this many milliseconds after a change of the dependencies before re-running,
+     * all changes within that time result in a single run
+     */
+    debounce?: number
+}
+
+export interface IComputedAsync<T> {
+    readonly value: T | undefined
+    readonly state: ComputedAsyncState
+    readonly error: any
+}
+
+class ComputedAsync<T> implements IComputedAsync<T> {
+    private value_: ObservableValue<T | undefined>
+    private state_: ObservableValue<ComputedAsyncState>
+    private error_: ObservableValue<any>
+    private reaction_: Reaction | undefined
+    // results of older runs are dropped
+    private runId_ = 0
+    private observedCount_ = 0
+    private update_: ComputedAsyncUpdate
+
+    constructor(
+        private fn_: () => T | PromiseLike<T>,
+        private options_: IComputedAsyncOptions<T>,
+        private name_: string
+    ) {
+        this.value_ = new ObservableValue(
+            options_.initialValue,
+            referenceEnhancer,
+            name_ + ".value",
+            false
+        )
+        this.state_ = new ObservableValue<ComputedAsyncState>(
+            "pending",
+            referenceEnhancer,
+            name_ + ".state",
+            false
+        )
+        this.error_ = new ObservableValue(undefined, referenceEnhancer, name_ + ".error", false)
+        this.update_ = createAction<ComputedAsyncUpdate>(
+            name_ + ".update",
+            (runId, state, value) => {
+                if (runId !== this.runId_) {
+                    return
+                }
+                this.state_.set(state)
+                if (state === "fulfilled") {
+                    this.value_.set(value)
+                    this.error_.set(undefined)
+                } else if (state === "rejected") {
+                    this.error_.set(value)
+                }
+            }
+        )
+        ;[this.value_, this.state_, this.error_].forEach(observable => {
+            onBecomeObserved(observable, () => {
+                if (this.observedCount_++ === 0) {
+                    this.start_()
+                }
+            })
+            onBecomeUnobserved(observable, () => {
+                if (--this.observedCount_ === 0) {
+                    this.stop_()
+                }
+            })
+        })
+    }
+
+    get value() {
+        return this.value_.get()
+    }
+
+    get state() {
+        return this.state_.get()
+    }
+
+    get error() {
+        return this.error_.get()
+    }
+
+    private start_() {
+        let isFirstRun = true
+        const reaction = new Reaction(this.name_, () => {
+            if (isFirstRun || !scheduler) {
+                isFirstRun = false
+                this.run_(reaction)
+            } else {
+                scheduler.schedule_()
+            }
+        })
+        const { debounce } = this.options_
+        // the debounce scheduler keeps tracking while it waits, so every change restarts the timer
+        const scheduler = debounce
+            ? createEffectScheduler({ debounce }, () => this.run_(reaction))
+            : undefined
+        reaction.effectScheduler_ = scheduler
+        this.reaction_ = reaction
+        // the hooks fire while a derivation is being tracked, which is not allowed to change state
+        reaction.schedule_()
+    }
+
+    private stop_() {
+        // also cancels a pending debounced run
+        this.reaction_?.dispose()
+        this.reaction_ = undefined
+        // a pending result is dropped, the next observer triggers a fresh run
+        this.runId_++
+    }
+
+    private run_(reaction: Reaction) {
+        if (reaction.isDisposed_) {
+            return
+        }
+        const runId = ++this.runId_
+        let result
+        let error
+        let hasError = false
+        reaction.track(() => {
+            try {
+                result = this.fn_()
+            } catch (e) {
+                error = e
+                hasError = true
+            }
+        })
+        if (hasError) {
+            this.update_(runId, "rejected", error)
+        } else if (isFunction(result?.then)) {
+            this.update_(runId, "pending", undefined)
+            result.then(
+                value => this.update_(runId, "fulfilled", value),
+                e => this.update_(runId, "rejected", e)
+            )
+        } else {
+            this.update_(runId, "fulfilled", result)
+        }
+    }
+}
+
+/**
+ * Creates an observable value from a derivation that may return a promise.
+ * The function is re-run when the observables it reads synchronously change, results of older runs are dropped.
+ * The function only runs while the value, state or error is observed.
+ */
+export function computedAsync<T>(
+    fn: () => T | PromiseLike<T>,
+    options: IComputedAsyncOptions<T> = {}
+): IComputedAsync<T> {
+    return new ComputedAsync(
+        fn,
+        options,
+        options.name || (__DEV__ ? "ComputedAsync@" + getNextId() : "ComputedAsync")
+    )
+}
@@ -1,4 +1,15 @@
-import { globalState, isolateGlobalState, setReactionScheduler } from "../internal"
+import {
+    IInstrumentationOptions,
+    IReactionCycle,
+    IVirtualScheduler,
+    VirtualScheduler,
+    die,
+    globalState,
+    isolateGlobalState,
+    setIdleReactionScheduler,
+    setReactionScheduler,
+    setVirtualScheduler
+} from "../internal"
 
 const NEVER = "never"
 const ALWAYS = "always"
@@ -19,8 +30,28 @@ export function configure(options: {
     isolateGlobalState?: boolean
     disableErrorBoundaries?: boolean
     safeDescriptors?: boolean
-    reactionScheduler?: (f: () => void) => void
+    /**
+     * Wraps the scheduling of reactions, or installs a scheduler created by `createVirtualScheduler()`
+     */
+    reactionScheduler?: ((f: () => void) => void) | IVirtualScheduler
+    /**
+     * Schedules the reactions with priority "idle", defaults to `requestIdleCallback` if available
+     */
+    idleReactionScheduler?: (f: () => void) => void
     useProxies?: "always" | "never" | "ifavailable"
+    /**
+     * After how many iterations reactions that keep triggering each other are stopped, defaults to 100
+     */
+    maxReactionIterations?: number
+    /**
+     * What to do when reactions don't converge: "log" an error (the default), "throw" an error,
+     * or a function that receives the reactions and observables involved in the cycle
+     */
+    onReactionCycle?: "log" | "throw" | ((cycle: IReactionCycle) => void)
+    /**
+     * Keeps `spy` working in production builds, optionally only for a sample of the events or for some event types
+     */
+    instrumentation?: boolean | IInstrumentationOptions
 }): void {
     if (options.isolateGlobalState === true) {
         isolateGlobalState()
@@ -59,7 +90,34 @@ export function configure(options: {
             "WARNING: Debug feature only. MobX will NOT recover from errors when `disableErrorBoundaries` is enabled."
         )
     }
-    if (options.reactionScheduler) {
-        setReactionScheduler(options.reactionScheduler)
+    if (options.maxReactionIterations !== undefined) {
+        if (__DEV__ && !(options.maxReactionIterations > 0)) {
+            die("'maxReactionIterations' should be a positive number")
+        }
+        globalState.maxReactionIterations = options.maxReactionIterations
+    }
+    if (options.onReactionCycle !== undefined) {
+        globalState.onReactionCycle = options.onReactionCycle
+    }
+    const { instrumentation } = options
+    if (instrumentation !== undefined) {
+        if (
+            __DEV__ &&
+            typeof instrumentation === "object" &&
+            instrumentation.sampleRate !== undefined &&
+            !(instrumentation.sampleRate >= 0 && instrumentation.sampleRate <= 1)
+        ) {
+            die("'instrumentation.sampleRate' should be a number between 0 and 1")
+        }
+        globalState.instrumentation = instrumentation === true ? {} : instrumentation || undefined
+    }
+    const { reactionScheduler } = options
+    if (reactionScheduler instanceof VirtualScheduler) {
+        setVirtualScheduler(reactionScheduler)
+    } else if (typeof reactionScheduler === "function") {
+        setReactionScheduler(reactionScheduler)
+    }
+    if (options.idleReactionScheduler) {
+        setIdleReactionScheduler(options.idleReactionScheduler)
     }
 }
@@ -7,13 +7,22 @@ import {
     isStringish,
     storeAnnotation,
     createFlowAnnotation,
-    createDecoratorAnnotation
+    createDecoratorAnnotation,
+    ObservableValue,
+    referenceEnhancer,
+    createAction,
+    $mobx,
+    scheduleTimeout,
+    cancelTimeout
 } from "../internal"
 
 export const FLOW = "flow"
 
 let generatorId = 0
 
+// returns the signal of the flow whose generator is currently running
+let currentFlowSignal: (() => AbortSignal) | undefined
+
 export function FlowCancellationError() {
     this.message = "FLOW_CANCELLED"
 }
@@ -25,37 +34,88 @@ export function isFlowCancellationError(error: Error) {
 
 export type CancellablePromise<T> = Promise<T> & { cancel(): void }
 
+export interface IFlowOptions {
+    /**
+     * Cancels all running invocations of the flow when aborted
+     */
+    signal?: AbortSignal
+}
+
 interface Flow extends Annotation, PropertyDecorator {
     <R, Args extends any[]>(
-        generator: (...args: Args) => Generator<any, R, any> | AsyncGenerator<any, R, any>
+        generator: (...args: Args) => Generator<any, R, any> | AsyncGenerator<any, R, any>,
+        options?: IFlowOptions
     ): (...args: Args) => CancellablePromise<R>
     bound: Annotation & PropertyDecorator
+    tracked: Annotation & PropertyDecorator
+    latest: Annotation & PropertyDecorator
+    drop: Annotation & PropertyDecorator
+    queue: Annotation & PropertyDecorator
+    restartable: Annotation &
+        PropertyDecorator &
+        ((options: IRestartableFlowOptions) => Annotation & PropertyDecorator)
+}
+
+export type FlowConcurrency = "latest" | "drop" | "queue" | "restartable"
+
+export interface IRestartableFlowOptions {
+    /**
+     * Wait this many milliseconds before (re)starting the run
+     */
+    debounce?: number
 }
 
 const flowAnnotation = createFlowAnnotation("flow")
 const flowBoundAnnotation = createFlowAnnotation("flow.bound", { bound: true })
+const flowTrackedAnnotation = createFlowAnnotation("flow.tracked", { tracked: true })
+const flowLatestAnnotation = createFlowAnnotation("flow.latest", { concurrency: "latest" })
+const flowDropAnnotation = createFlowAnnotation("flow.drop", { concurrency: "drop" })
+const flowQueueAnnotation = createFlowAnnotation("flow.queue", { concurrency: "queue" })
+const flowRestartableAnnotation = createFlowAnnotation("flow.restartable", {
+    concurrency: "restartable"
+})
 
 export const flow: Flow = Object.assign(
-    function flow(arg1, arg2?) {
+    function flow(arg1: any, arg2?: any): any {
         // @flow
         if (isStringish(arg2)) {
             return storeAnnotation(arg1, arg2, flowAnnotation)
         }
-        // flow(fn)
-        if (__DEV__ && arguments.length !== 1) {
-            die(`Flow expects single argument with generator function`)
+        // flow(fn, options?)
+        if (__DEV__ && !isFunction(arg1)) {
+            die(`Flow expects a generator function as first argument`)
         }
         const generator = arg1
         const name = generator.name || "<unnamed flow>"
+        const options: IFlowOptions = arg2 || {}
 
         // Implementation based on https://github.com/tj/co/blob/master/index.js
         const res = function () {
             const ctx = this
             const args = arguments
             const runId = ++generatorId
+            if (options.signal?.aborted) {
+                return Object.assign(Promise.reject(new FlowCancellationError()), {
+                    cancel: noop
+                })
+            }
             const gen = action(`${name} - runid: ${runId} - init`, generator).apply(ctx, args)
             let rejector: (error: any) => void
             let pendingPromise: CancellablePromise<any> | undefined = undefined
+            // created lazily, as most flows never ask for it
+            let controller: AbortController | undefined
+            const getSignal = () => (controller ||= new AbortController()).signal
+
+            // makes the signal of this run available to `getFlowSignal`
+            function step<T>(fn: () => T): T {
+                const prevFlowSignal = currentFlowSignal
+                currentFlowSignal = getSignal
+                try {
+                    return fn()
+                } finally {
+                    currentFlowSignal = prevFlowSignal
+                }
+            }
 
             const promise = new Promise(function (resolve, reject) {
                 let stepId = 0
@@ -65,10 +125,12 @@ export const flow: Flow = Object.assign(
                     pendingPromise = undefined
                     let ret
                     try {
-                        ret = action(
-                            `${name} - runid: ${runId} - yield ${stepId++}`,
-                            gen.next
-                        ).call(gen, res)
+                        ret = step(() =>
+                            action(`${name} - runid: ${runId} - yield ${stepId++}`, gen.next).call(
+                                gen,
+                                res
+                            )
+                        )
                     } catch (e) {
                         return reject(e)
                     }
@@ -80,10 +142,12 @@ export const flow: Flow = Object.assign(
                     pendingPromise = undefined
                     let ret
                     try {
-                        ret = action(
-                            `${name} - runid: ${runId} - yield ${stepId++}`,
-                            gen.throw!
-                        ).call(gen, err)
+                        ret = step(() =>
+                            action(
+                                `${name} - runid: ${runId} - yield ${stepId++}`,
+                                gen.throw!
+                            ).call(gen, err)
+                        )
                     } catch (e) {
                         return reject(e)
                     }
@@ -108,11 +172,14 @@ export const flow: Flow = Object.assign(
 
             promise.cancel = action(`${name} - runid: ${runId} - cancel`, function () {
                 try {
+                    // abort work that was started with the signal of this run, e.g. fetch requests
+                    controller?.abort()
                     if (pendingPromise) {
+                        // cancels nested flows as well
                         cancelPromise(pendingPromise)
                     }
                     // Finally block can return (or yield) stuff..
-                    const res = gen.return!(undefined as any)
+                    const res = step(() => gen.return!(undefined as any))
                     // eat anything that promise would do, it's cancelled!
                     const yieldedPromise = Promise.resolve(res.value)
                     yieldedPromise.then(noop, noop)
@@ -123,15 +190,45 @@ export const flow: Flow = Object.assign(
                     rejector(e) // there could be a throwing finally block
                 }
             })
+            if (options.signal) {
+                const { signal } = options
+                signal.addEventListener("abort", promise.cancel)
+                promise.then(
+                    () => signal.removeEventListener("abort", promise.cancel),
+                    () => signal.removeEventListener("abort", promise.cancel)
+                )
+            }
             return promise
         }
         res.isMobXFlow = true
         return res
-    } as any,
-    flowAnnotation
+    },
+    flowAnnotation,
+    {
+        bound: createDecoratorAnnotation(flowBoundAnnotation),
+        tracked: createDecoratorAnnotation(flowTrackedAnnotation),
+        latest: createDecoratorAnnotation(flowLatestAnnotation),
+        drop: createDecoratorAnnotation(flowDropAnnotation),
+        queue: createDecoratorAnnotation(flowQueueAnnotation),
+        restartable: Object.assign(restartable, flowRestartableAnnotation)
+    }
 )
 
-flow.bound = createDecoratorAnnotation(flowBoundAnnotation)
+function restartable(options: IRestartableFlowOptions): Annotation & PropertyDecorator
+function restartable(target: Object, propertyKey: string | symbol): void
+function restartable(arg1: any, arg2?: PropertyKey) {
+    // @flow.restartable
+    if (isStringish(arg2)) {
+        return storeAnnotation(arg1, arg2, flowRestartableAnnotation)
+    }
+    // flow.restartable({ debounce })
+    return createDecoratorAnnotation(
+        createFlowAnnotation("flow.restartable", {
+            concurrency: "restartable",
+            debounce: arg1?.debounce
+        })
+    )
+}
 
 function cancelPromise(promise) {
     if (isFunction(promise.cancel)) {
@@ -139,6 +236,250 @@ function cancelPromise(promise) {
     }
 }
 
+/**
+ * Returns the `AbortSignal` of the flow that is currently running, which is aborted when the flow is cancelled.
+ * Should be called synchronously from within the generator function, i.e. not after an `await` in an async generator.
+ */
+export function getFlowSignal(): AbortSignal {
+    if (!currentFlowSignal) {
+        die("'getFlowSignal()' can only be called synchronously from within a flow")
+    }
+    return currentFlowSignal()
+}
+
+export interface IFlowStatus<T = any> {
+    /**
+     * The amount of runs that haven't finished yet
+     */
+    readonly inFlight: number
+    readonly isPending: boolean
+    /**
+     * The error of the run that was started last, if it failed. It is kept while a newer run is pending,
+     * and cleared once the run that was started last succeeds. Older runs never change it.
+     */
+    readonly error: any
+    /**
+     * The value of the run that was started last, once it succeeded. Older runs never change it.
+     */
+    readonly result: T | undefined
+}
+
+class FlowStatus implements IFlowStatus {
+    private inFlight_: ObservableValue<number>
+    private error_: ObservableValue<any>
+    private result_: ObservableValue<any>
+    // only the latest run updates the error and result, older runs are stale
+    private lastRunId_ = 0
+
+    constructor(name: string) {
+        this.inFlight_ = new ObservableValue(0, referenceEnhancer, name + ".inFlight", false)
+        this.error_ = new ObservableValue(undefined, referenceEnhancer, name + ".error", false)
+        this.result_ = new ObservableValue(undefined, referenceEnhancer, name + ".result", false)
+    }
+
+    get inFlight() {
+        return this.inFlight_.get()
+    }
+
+    get isPending() {
+        return this.inFlight_.get() > 0
+    }
+
+    get error() {
+        return this.error_.get()
+    }
+
+    get result() {
+        return this.result_.get()
+    }
+
+    start_ = createAction("FlowStatus.start", (): number => {
+        this.inFlight_.set(this.inFlight_.get() + 1)
+        return ++this.lastRunId_
+    }) as () => number
+
+    end_ = createAction("FlowStatus.end", (runId: number, hasError: boolean, value: any) => {
+        this.inFlight_.set(this.inFlight_.get() - 1)
+        if (runId !== this.lastRunId_) {
+            return
+        }
+        if (!hasError) {
+            this.error_.set(undefined)
+            this.result_.set(value)
+        } else if (!isFlowCancellationError(value)) {
+            this.error_.set(value)
+        }
+    }) as (runId: number, hasError: boolean, value: any) => void
+}
+
+const flowStatuses = new WeakMap<object, Map<PropertyKey, FlowStatus>>()
+
+function getOrCreateFlowStatus(target: object, key: PropertyKey): FlowStatus {
+    let statuses = flowStatuses.get(target)
+    if (!statuses) {
+        statuses = new Map()
+        flowStatuses.set(target, statuses)
+    }
+    let status = statuses.get(key)
+    if (!status) {
+        status = new FlowStatus(
+            __DEV__ ? `${target[$mobx]?.name_ ?? "FlowStatus"}.${key.toString()}` : "FlowStatus"
+        )
+        statuses.set(key, status)
+    }
+    return status
+}
+
+/**
+ * Wraps a flow so that its runs are reported to the status of the instance it is called on
+ */
+export function createTrackedFlow(flowFn: Function, key: PropertyKey): Function {
+    const res = function () {
+        if (__DEV__ && (this == null || typeof this !== "object")) {
+            die(`'${key.toString()}' should be called as a method`)
+        }
+        const status = getOrCreateFlowStatus(this, key)
+        const runId = status.start_()
+        const promise = flowFn.apply(this, arguments)
+        promise.then(
+            value => status.end_(runId, false, value),
+            error => status.end_(runId, true, error)
+        )
+        return promise
+    }
+    res.isMobXFlow = true
+    res.isMobXTrackedFlow = true
+    return res
+}
+
+interface IConcurrentFlowState {
+    // the last run, used by `latest`, `drop` and `restartable`
+    current_: CancellablePromise<any> | undefined
+    // the last queued run
+    tail_: CancellablePromise<any> | undefined
+}
+
+/**
+ * Returns a promise for a run that is started once `schedule` calls back, unless it was cancelled before.
+ * `schedule` can return a function that is called on cancellation, to clear a pending timer.
+ */
+function scheduleFlow(
+    start: () => CancellablePromise<any>,
+    schedule: (run: () => void) => (() => void) | void
+): CancellablePromise<any> {
+    let running: CancellablePromise<any> | undefined
+    let isCancelled = false
+    let rejector: (error: any) => void
+    let unschedule: (() => void) | void
+    const promise = new Promise((resolve, reject) => {
+        rejector = reject
+        unschedule = schedule(() => {
+            if (!isCancelled) {
+                running = start()
+                running.then(resolve, reject)
+            }
+        })
+    }) as CancellablePromise<any>
+    promise.cancel = () => {
+        if (running) {
+            running.cancel()
+        } else if (!isCancelled) {
+            isCancelled = true
+            unschedule?.()
+            rejector(new FlowCancellationError())
+        }
+    }
+    return promise
+}
+
+/**
+ * Wraps a flow so that overlapping calls on the same instance are handled according to the concurrency policy
+ */
+export function createConcurrentFlow(
+    flowFn: Function,
+    key: PropertyKey,
+    concurrency: FlowConcurrency,
+    debounce: number = 0
+): Function {
+    const states = new WeakMap<object, IConcurrentFlowState>()
+    const res = function () {
+        if (__DEV__ && (this == null || typeof this !== "object")) {
+            die(`'${key.toString()}' should be called as a method`)
+        }
+        let state = states.get(this)
+        if (!state) {
+            state = { current_: undefined, tail_: undefined }
+            states.set(this, state)
+        }
+        const ctx = this
+        const args = arguments
+        const start = () => flowFn.apply(ctx, args) as CancellablePromise<any>
+        let promise: CancellablePromise<any>
+        switch (concurrency) {
+            case "drop":
+                // the running flow wins, the call is ignored
+                if (state.current_) {
+                    return state.current_
+                }
+                promise = start()
+                break
+            case "latest":
+                state.current_?.cancel()
+                promise = start()
+                break
+            case "restartable":
+                state.current_?.cancel()
+                promise = scheduleFlow(start, run => {
+                    if (debounce <= 0) {
+                        return run()
+                    }
+                    const timeout = scheduleTimeout(run, debounce)
+                    return () => cancelTimeout(timeout)
+                })
+                break
+            case "queue": {
+                const previous = state.tail_
+                promise = scheduleFlow(start, run => {
+                    if (previous) {
+                        previous.then(run, run)
+                    } else {
+                        run()
+                    }
+                })
+                const queued = promise
+                state.tail_ = queued
+                const dequeue = () => {
+                    if (state!.tail_ === queued) {
+                        state!.tail_ = undefined
+                    }
+                }
+                queued.then(dequeue, dequeue)
+                return queued
+            }
+        }
+        state.current_ = promise
+        const clear = () => {
+            if (state!.current_ === promise) {
+                state!.current_ = undefined
+            }
+        }
+        promise.then(clear, clear)
+        return promise
+    }
+    res.isMobXFlow = true
+    return res
+}
+
+/**
+ * Returns the observable status of a method that is annotated with `flow.tracked`, for the given instance
+ */
+export function getFlowStatus<T extends object>(target: T, key: keyof T): IFlowStatus {
+    if (__DEV__ && !target[key]?.["isMobXTrackedFlow"]) {
+        die(`'${String(key)}' is not annotated with 'flow.tracked'`)
+    }
+    return getOrCreateFlowStatus(target, key)
+}
+
 export function flowResult<T>(
     result: T
 ): T extends Generator<any, infer R, any>
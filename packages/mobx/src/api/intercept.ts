@@ -1,6 +1,7 @@
 import {
     IArrayWillChange,
     IArrayWillSplice,
+    IArrayWillMove,
     IInterceptor,
     IMapWillChange,
     IObjectWillChange,
@@ -12,6 +13,10 @@ import {
     getAdministration,
     ObservableSet,
     ISetWillChange,
+    ObservableWeakMap,
+    IWeakMapWillChange,
+    ObservableWeakSet,
+    IWeakSetWillChange,
     isFunction
 } from "../internal"
 
@@ -21,7 +26,7 @@ export function intercept<T>(
 ): Lambda
 export function intercept<T>(
     observableArray: IObservableArray<T> | Array<T>,
-    handler: IInterceptor<IArrayWillChange<T> | IArrayWillSplice<T>>
+    handler: IInterceptor<IArrayWillChange<T> | IArrayWillSplice<T> | IArrayWillMove<T>>
 ): Lambda
 export function intercept<K, V>(
     observableMap: ObservableMap<K, V> | Map<K, V>,
@@ -31,6 +36,14 @@ export function intercept<V>(
     observableSet: ObservableSet<V> | Set<V>,
     handler: IInterceptor<ISetWillChange<V>>
 ): Lambda
+export function intercept<K extends object, V>(
+    observableWeakMap: ObservableWeakMap<K, V>,
+    handler: IInterceptor<IWeakMapWillChange<K, V>>
+): Lambda
+export function intercept<T extends object>(
+    observableWeakSet: ObservableWeakSet<T>,
+    handler: IInterceptor<IWeakSetWillChange<T>>
+): Lambda
 export function intercept<K, V>(
     observableMap: ObservableMap<K, V> | Map<K, V>,
     property: K,
@@ -8,6 +8,13 @@ import {
     ObservableMap,
     ObservableSet,
     ObservableValue,
+    ObservableWeakMap,
+    ObservableWeakSet,
+    IObservableWeakMapInitialValues,
+    ObservableSortedArray,
+    ObservableSortedMap,
+    IObservableSortedMapInitialValues,
+    ICompareFn,
     asDynamicObservableObject,
     createObservableArray,
     deepEnhancer,
@@ -29,7 +36,8 @@ import {
     assign,
     isStringish,
     createObservableAnnotation,
-    createAutoAnnotation
+    createAutoAnnotation,
+    structuralKeyHash
 } from "../internal"
 
 export const OBSERVABLE = "observable"
@@ -46,6 +54,13 @@ export type CreateObservableOptions = {
     autoBind?: boolean
 }
 
+export type CreateObservableMapOptions<K = any> = CreateObservableOptions & {
+    /**
+     * Keys with the same hash are considered the same key
+     */
+    keyHash?: (key: K) => unknown
+}
+
 // Predefined bags of create observable options, to avoid allocating temporarily option objects
 // in the majority of cases
 export const defaultCreateObservableOptions: CreateObservableOptions = {
@@ -158,6 +173,44 @@ export interface IObservableFactory extends Annotation, PropertyDecorator {
         options?: CreateObservableOptions
     ) => ObservableSet<T>
     map: <K = any, V = any>(
+        initialValues?: IObservableMapInitialValues<K, V>,
+        options?: CreateObservableMapOptions<K>
+    ) => ObservableMap<K, V>
+    /**
+     * Creates a `WeakMap` of which `has` and `get` are tracked per key
+     */
+    weakMap: <K extends object = any, V = any>(
+        initialValues?: IObservableWeakMapInitialValues<K, V>,
+        options?: CreateObservableOptions
+    ) => ObservableWeakMap<K, V>
+    /**
+     * Creates a `WeakSet` of which `has` is tracked per value
+     */
+    weakSet: <T extends object = any>(
+        initialValues?: readonly T[],
+        options?: CreateObservableOptions
+    ) => ObservableWeakSet<T>
+    /**
+     * Creates an array that keeps its items sorted by `compareFn`.
+     * Items are only made observable when `deep: true` is passed, as the values that `compareFn` reads must not change
+     */
+    sortedArray: <T = any>(
+        compareFn: ICompareFn<T>,
+        initialValues?: readonly T[],
+        options?: CreateObservableOptions
+    ) => ObservableSortedArray<T>
+    /**
+     * Creates a map that keeps its keys sorted by `compareFn`
+     */
+    sortedMap: <K = any, V = any>(
+        compareFn: ICompareFn<K>,
+        initialValues?: IObservableSortedMapInitialValues<K, V>,
+        options?: CreateObservableOptions
+    ) => ObservableSortedMap<K, V>
+    /**
+     * Creates a map that compares plain object, array and date keys structurally
+     */
+    structMap: <K = any, V = any>(
         initialValues?: IObservableMapInitialValues<K, V>,
         options?: CreateObservableOptions
     ) => ObservableMap<K, V>
@@ -193,11 +246,28 @@ const observableFactories: IObservableFactory = {
         )(initialValues, getEnhancerFromOptions(o), o.name)
     },
     map<K = any, V = any>(
+        initialValues?: IObservableMapInitialValues<K, V>,
+        options?: CreateObservableMapOptions<K>
+    ): ObservableMap<K, V> {
+        const o = asCreateObservableOptions(options)
+        return new ObservableMap<K, V>(
+            initialValues,
+            getEnhancerFromOptions(o),
+            o.name,
+            options?.keyHash
+        )
+    },
+    structMap<K = any, V = any>(
         initialValues?: IObservableMapInitialValues<K, V>,
         options?: CreateObservableOptions
     ): ObservableMap<K, V> {
         const o = asCreateObservableOptions(options)
-        return new ObservableMap<K, V>(initialValues, getEnhancerFromOptions(o), o.name)
+        return new ObservableMap<K, V>(
+            initialValues,
+            getEnhancerFromOptions(o),
+            o.name,
+            structuralKeyHash
+        )
     },
     set<T = any>(
         initialValues?: IObservableSetInitialValues<T>,
@@ -206,6 +276,47 @@ const observableFactories: IObservableFactory = {
         const o = asCreateObservableOptions(options)
         return new ObservableSet<T>(initialValues, getEnhancerFromOptions(o), o.name)
     },
+    weakMap<K extends object = any, V = any>(
+        initialValues?: IObservableWeakMapInitialValues<K, V>,
+        options?: CreateObservableOptions
+    ): ObservableWeakMap<K, V> {
+        const o = asCreateObservableOptions(options)
+        return new ObservableWeakMap<K, V>(initialValues, getEnhancerFromOptions(o), o.name)
+    },
+    weakSet<T extends object = any>(
+        initialValues?: readonly T[],
+        options?: CreateObservableOptions
+    ): ObservableWeakSet<T> {
+        return new ObservableWeakSet<T>(initialValues, options?.name)
+    },
+    sortedArray<T = any>(
+        compareFn: ICompareFn<T>,
+        initialValues?: readonly T[],
+        options?: CreateObservableOptions
+    ): ObservableSortedArray<T> {
+        const o = asCreateObservableOptions(options)
+        return new ObservableSortedArray<T>(
+            compareFn,
+            initialValues,
+            options?.deep || options?.defaultDecorator
+                ? getEnhancerFromOptions(o)
+                : referenceEnhancer,
+            o.name
+        )
+    },
+    sortedMap<K = any, V = any>(
+        compareFn: ICompareFn<K>,
+        initialValues?: IObservableSortedMapInitialValues<K, V>,
+        options?: CreateObservableOptions
+    ): ObservableSortedMap<K, V> {
+        const o = asCreateObservableOptions(options)
+        return new ObservableSortedMap<K, V>(
+            compareFn,
+            initialValues,
+            getEnhancerFromOptions(o),
+            o.name
+        )
+    },
     object<T extends object = any>(
         props: T,
         decorators?: AnnotationsMap<T, never>,
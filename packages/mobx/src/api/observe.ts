@@ -11,6 +11,14 @@ import {
     getAdministration,
     ObservableSet,
     ISetDidChange,
+    ObservableWeakMap,
+    IWeakMapDidChange,
+    ObservableWeakSet,
+    IWeakSetDidChange,
+    ObservableSortedArray,
+    ISortedArrayDidChange,
+    ObservableSortedMap,
+    ISortedMapDidChange,
     isFunction
 } from "../internal"
 
@@ -35,6 +43,26 @@ export function observe<K, V>(
     listener: (change: IMapDidChange<K, V>) => void,
     fireImmediately?: boolean
 ): Lambda
+export function observe<K extends object, V>(
+    observableWeakMap: ObservableWeakMap<K, V>,
+    listener: (change: IWeakMapDidChange<K, V>) => void,
+    fireImmediately?: boolean
+): Lambda
+export function observe<T extends object>(
+    observableWeakSet: ObservableWeakSet<T>,
+    listener: (change: IWeakSetDidChange<T>) => void,
+    fireImmediately?: boolean
+): Lambda
+export function observe<T>(
+    sortedArray: ObservableSortedArray<T>,
+    listener: (change: ISortedArrayDidChange<T>) => void,
+    fireImmediately?: boolean
+): Lambda
+export function observe<K, V>(
+    sortedMap: ObservableSortedMap<K, V>,
+    listener: (change: ISortedMapDidChange<K, V>) => void,
+    fireImmediately?: boolean
+): Lambda
 export function observe<K, V>(
     observableMap: ObservableMap<K, V> | Map<K, V>,
     property: K,
@@ -0,0 +1,362 @@
+import {
+    $mobx,
+    IArrayDidChange,
+    IMapDidChange,
+    IObjectDidChange,
+    ISetDidChange,
+    Lambda,
+    ObservableValue,
+    Reaction,
+    die,
+    endBatch,
+    getNextId,
+    isObservableArray,
+    isObservableMap,
+    isObservableObject,
+    isObservableSet,
+    observe,
+    startBatch,
+    stringifyKey,
+    toJS
+} from "../internal"
+
+/**
+ * A JSON-Patch (RFC 6902) operation.
+ * `oldValue` is not part of the RFC, but is provided so that patches can be reverted.
+ * `move` operations are only produced for items that move within an array, `copy` and `test` are never produced.
+ * Members of sets are addressed by their string form, so only patches of sets with primitive members can be applied.
+ */
+export interface IJsonPatch {
+    op: "add" | "remove" | "replace" | "move" | "copy" | "test"
+    path: string
+    from?: string
+    value?: any
+    oldValue?: any
+}
+
+/**
+ * A single change within an observed tree, as it happened on the collection itself.
+ * Unlike patches, changes keep the original key, which can be any value for maps and sets,
+ * and the original values, so that they can be reverted without resolving paths.
+ */
+export interface ITreeChange {
+    op_: "add" | "remove" | "replace" | "move"
+    object_: any
+    // the index, property name, map key or set member
+    key_: any
+    // the index an item was moved from
+    from_?: number
+    value_?: any
+    oldValue_?: any
+}
+
+interface IDeepObserverNode {
+    parent_: IDeepObserverNode | undefined
+    key_: string
+    dispose_: Lambda
+}
+
+type IDeepChange = IObjectDidChange | IArrayDidChange | IMapDidChange | ISetDidChange
+
+export function isDeepObservable(thing: any): boolean {
+    return (
+        isObservableObject(thing) ||
+        isObservableArray(thing) ||
+        isObservableMap(thing) ||
+        isObservableSet(thing)
+    )
+}
+
+/**
+ * Escapes a single path segment according to JSON-Pointer (RFC 6901)
+ */
+export function escapeJsonPointer(segment: string): string {
+    return segment.replace(/~/g, "~0").replace(/\//g, "~1")
+}
+
+// Maps and sets are their own administration
+function getNodeKey(thing: any): any {
+    return isObservableMap(thing) || isObservableSet(thing) ? thing : thing[$mobx]
+}
+
+function forEachChild(thing: any, fn: (value: any, key: string) => void) {
+    if (isObservableObject(thing)) {
+        thing[$mobx].values_.forEach((observable, key) => {
+            // computeds are derived, so they are not part of the tree
+            if (observable instanceof ObservableValue) {
+                fn(observable.value_, stringifyKey(key))
+            }
+        })
+    } else if (isObservableArray(thing)) {
+        thing[$mobx].values_.forEach((value, index) => fn(value, "" + index))
+    } else if (isObservableMap(thing)) {
+        thing.data_.forEach((observable, key) => fn(observable.value_, stringifyKey(key)))
+    }
+    // set members can't be addressed by a path, so they are treated as leaves
+}
+
+function buildPath(node: IDeepObserverNode | undefined): string {
+    let path = ""
+    while (node && node.parent_) {
+        path = "/" + escapeJsonPointer(node.key_) + path
+        node = node.parent_
+    }
+    return path
+}
+
+/**
+ * Creates a reaction that calls `flush` once the outermost batch in which it was scheduled has ended.
+ * Reactions only run after the outermost batch, so it doesn't need to track anything to run at the right time.
+ */
+export function createBatchFlusher(name: string, flush: () => void): Reaction {
+    return new Reaction(name, flush)
+}
+
+/**
+ * Observes a tree of observables and reports every change as soon as it happens.
+ * All patches that result from a single change are reported within the same batch.
+ */
+export function observeTree(
+    root: Object,
+    addPatch: (patch: IJsonPatch, change: ITreeChange) => void
+): Lambda {
+    const nodes = new Map<any, IDeepObserverNode>()
+
+    function observeRecursively(thing: any, parent: IDeepObserverNode | undefined, key: string) {
+        if (!isDeepObservable(thing)) {
+            return
+        }
+        const nodeKey = getNodeKey(thing)
+        const existing = nodes.get(nodeKey)
+        if (existing) {
+            if (existing.parent_ !== parent || existing.key_ !== key) {
+                die(
+                    `The same observable cannot appear twice in a deeply observed tree, trying to assign it to '${buildPath(
+                        parent
+                    )}/${key}', but it already exists at '${buildPath(existing)}'`
+                )
+            }
+            return
+        }
+        const node: IDeepObserverNode = {
+            parent_: parent,
+            key_: key,
+            dispose_: observe(thing, (change: IDeepChange) => {
+                // a single change can result in multiple patches, e.g. splices
+                startBatch()
+                try {
+                    processChange(node, change)
+                } finally {
+                    endBatch()
+                }
+            })
+        }
+        nodes.set(nodeKey, node)
+        forEachChild(thing, (value, childKey) => observeRecursively(value, node, childKey))
+    }
+
+    function unobserveRecursively(thing: any) {
+        if (!isDeepObservable(thing)) {
+            return
+        }
+        const nodeKey = getNodeKey(thing)
+        const node = nodes.get(nodeKey)
+        if (node) {
+            node.dispose_()
+            nodes.delete(nodeKey)
+            forEachChild(thing, unobserveRecursively)
+        }
+    }
+
+    function updateArrayKeys(array: any, start: number, end: number) {
+        const values = array[$mobx].values_
+        for (let i = start; i < Math.min(end, values.length); i++) {
+            const child = isDeepObservable(values[i]) ? nodes.get(getNodeKey(values[i])) : undefined
+            if (child) {
+                child.key_ = "" + i
+            }
+        }
+    }
+
+    function processChange(node: IDeepObserverNode, change: IDeepChange) {
+        const path = buildPath(node)
+        switch (change.observableKind) {
+            case "object":
+            case "map": {
+                const key = stringifyKey(change.name)
+                const childPath = path + "/" + escapeJsonPointer(key)
+                switch (change.type) {
+                    case "add":
+                        if (
+                            change.observableKind === "object" &&
+                            !(
+                                change.object[$mobx].values_.get(change.name) instanceof
+                                ObservableValue
+                            )
+                        ) {
+                            // actions, computeds and other non observable members
+                            return
+                        }
+                        observeRecursively(change.newValue, node, key)
+                        addPatch(
+                            { op: "add", path: childPath, value: toJS(change.newValue) },
+                            {
+                                op_: "add",
+                                object_: change.object,
+                                key_: change.name,
+                                value_: change.newValue
+                            }
+                        )
+                        break
+                    case "update":
+                        unobserveRecursively(change.oldValue)
+                        observeRecursively(change.newValue, node, key)
+                        addPatch(
+                            {
+                                op: "replace",
+                                path: childPath,
+                                value: toJS(change.newValue),
+                                oldValue: toJS(change.oldValue)
+                            },
+                            {
+                                op_: "replace",
+                                object_: change.object,
+                                key_: change.name,
+                                value_: change.newValue,
+                                oldValue_: change.oldValue
+                            }
+                        )
+                        break
+                    case "remove":
+                    case "delete":
+                        unobserveRecursively(change.oldValue)
+                        addPatch(
+                            { op: "remove", path: childPath, oldValue: toJS(change.oldValue) },
+                            {
+                                op_: "remove",
+                                object_: change.object,
+                                key_: change.name,
+                                oldValue_: change.oldValue
+                            }
+                        )
+                        break
+                }
+                break
+            }
+            case "array": {
+                if (change.type === "update") {
+                    const key = "" + change.index
+                    unobserveRecursively(change.oldValue)
+                    observeRecursively(change.newValue, node, key)
+                    addPatch(
+                        {
+                            op: "replace",
+                            path: path + "/" + key,
+                            value: toJS(change.newValue),
+                            oldValue: toJS(change.oldValue)
+                        },
+                        {
+                            op_: "replace",
+                            object_: change.object,
+                            key_: change.index,
+                            value_: change.newValue,
+                            oldValue_: change.oldValue
+                        }
+                    )
+                    break
+                }
+                if (change.type === "move") {
+                    const { fromIndex, toIndex } = change
+                    addPatch(
+                        { op: "move", from: path + "/" + fromIndex, path: path + "/" + toIndex },
+                        { op_: "move", object_: change.object, key_: toIndex, from_: fromIndex }
+                    )
+                    updateArrayKeys(change.object, change.index, Math.max(fromIndex, toIndex) + 1)
+                    break
+                }
+                const { object, index, removed, added } = change
+                removed.forEach(item => {
+                    unobserveRecursively(item)
+                    // every removal shifts the next item into the same position
+                    addPatch(
+                        { op: "remove", path: path + "/" + index, oldValue: toJS(item) },
+                        { op_: "remove", object_: object, key_: index, oldValue_: item }
+                    )
+                })
+                added.forEach((item, i) => {
+                    observeRecursively(item, node, "" + (index + i))
+                    addPatch(
+                        { op: "add", path: path + "/" + (index + i), value: toJS(item) },
+                        { op_: "add", object_: object, key_: index + i, value_: item }
+                    )
+                })
+                // items after the splice have moved
+                if (removed.length !== added.length) {
+                    updateArrayKeys(change.object, index + added.length, Infinity)
+                }
+                break
+            }
+            case "set": {
+                // objects have no string form that identifies them, so these patches can't be applied
+                const value = change.type === "add" ? change.newValue : change.oldValue
+                const childPath = path + "/" + escapeJsonPointer(stringifyKey(value))
+                if (change.type === "add") {
+                    addPatch(
+                        { op: "add", path: childPath, value: toJS(value) },
+                        { op_: "add", object_: change.object, key_: value }
+                    )
+                } else {
+                    addPatch(
+                        { op: "remove", path: childPath, oldValue: toJS(value) },
+                        { op_: "remove", object_: change.object, key_: value }
+                    )
+                }
+                break
+            }
+        }
+    }
+
+    observeRecursively(root, undefined, "")
+
+    return () => {
+        nodes.forEach(node => node.dispose_())
+        nodes.clear()
+    }
+}
+
+/**
+ * Observes an observable object, array, map or set and all observable objects, arrays, maps and sets within it.
+ * Nodes that are added to the tree are observed automatically, removed nodes are no longer observed.
+ * Changes are reported as JSON-Patch operations, grouped per outermost batch,
+ * so a single action results in a single call to the listener.
+ *
+ * @returns disposer function, which stops observing the tree.
+ */
+export function observeDeep(root: Object, listener: (patches: IJsonPatch[]) => void): Lambda {
+    if (!isDeepObservable(root)) {
+        die("'observeDeep()' can only be used on observable objects, arrays, maps and sets")
+    }
+    let pendingPatches: IJsonPatch[] = []
+
+    const flusher = createBatchFlusher(
+        __DEV__ ? "ObserveDeep@" + getNextId() : "ObserveDeep",
+        () => {
+            const patches = pendingPatches
+            pendingPatches = []
+            if (patches.length) {
+                listener(patches)
+            }
+        }
+    )
+
+    const disposeTree = observeTree(root, patch => {
+        pendingPatches.push(patch)
+        flusher.schedule_()
+    })
+
+    return () => {
+        flusher.dispose()
+        disposeTree()
+        pendingPatches = []
+    }
+}
@@ -0,0 +1,141 @@
+import { ComputedValue, IDerivation, die, getGlobal, globalState } from "../internal"
+
+export interface IDerivationProfile {
+    name: string
+    kind: "computed" | "reaction"
+    /**
+     * How many times the derivation was (re)computed
+     */
+    runs: number
+    /**
+     * How many of the runs didn't change the value of a computed value, or of the expression of a `reaction`
+     */
+    unchangedRuns: number
+    /**
+     * The time spent in all runs in milliseconds, including the time spent in the computed values that were read
+     */
+    totalTime: number
+    maxTime: number
+    /**
+     * The amount of observables the derivation depended on after its last run
+     */
+    dependencies: number
+}
+
+export interface IProfile {
+    /**
+     * The time between starting and stopping the profiler in milliseconds
+     */
+    duration: number
+    /**
+     * The derivations that ran while profiling, the ones that took the most time first
+     */
+    derivations: IDerivationProfile[]
+    /**
+     * Returns the runs as JSON in the Chrome trace event format,
+     * which can be loaded in the Performance panel of the Chrome devtools
+     */
+    toChromeTrace(): string
+}
+
+export interface IProfiler {
+    /**
+     * Stops profiling and returns the results
+     */
+    stop(): IProfile
+}
+
+interface ITraceEvent {
+    name: string
+    cat: string
+    ph: "X"
+    ts: number
+    dur: number
+    pid: number
+    tid: number
+    args: { unchanged?: true }
+}
+
+function now(): number {
+    const { performance } = getGlobal()
+    return performance && typeof performance.now === "function" ? performance.now() : Date.now()
+}
+
+export class Profiler implements IProfiler {
+    private startTime_ = now()
+    private profiles_ = new Map<IDerivation, IDerivationProfile>()
+    private lastRuns_ = new Map<IDerivation, ITraceEvent>()
+    private traceEvents_: ITraceEvent[] = []
+
+    now_ = now
+
+    recordRun_(derivation: IDerivation, startTime: number, endTime: number) {
+        const time = endTime - startTime
+        let profile = this.profiles_.get(derivation)
+        if (!profile) {
+            profile = {
+                name: derivation.name_,
+                kind: derivation instanceof ComputedValue ? "computed" : "reaction",
+                runs: 0,
+                unchangedRuns: 0,
+                totalTime: 0,
+                maxTime: 0,
+                dependencies: 0
+            }
+            this.profiles_.set(derivation, profile)
+        }
+        profile.runs++
+        profile.totalTime += time
+        profile.maxTime = Math.max(profile.maxTime, time)
+        profile.dependencies = derivation.observing_.length
+
+        const event: ITraceEvent = {
+            name: profile.name,
+            cat: profile.kind,
+            ph: "X",
+            // the trace event format uses microseconds
+            ts: Math.round((startTime - this.startTime_) * 1000),
+            dur: Math.round(time * 1000),
+            pid: 1,
+            tid: 1,
+            args: {}
+        }
+        this.traceEvents_.push(event)
+        this.lastRuns_.set(derivation, event)
+    }
+
+    recordUnchangedRun_(derivation: IDerivation) {
+        const profile = this.profiles_.get(derivation)
+        const lastRun = this.lastRuns_.get(derivation)
+        if (profile && lastRun) {
+            profile.unchangedRuns++
+            lastRun.args.unchanged = true
+        }
+    }
+
+    stop(): IProfile {
+        if (globalState.profiler === this) {
+            globalState.profiler = undefined
+        }
+        const duration = now() - this.startTime_
+        const derivations = Array.from(this.profiles_.values()).sort(
+            (a, b) => b.totalTime - a.totalTime
+        )
+        const traceEvents = this.traceEvents_
+        return {
+            duration,
+            derivations,
+            toChromeTrace: () => JSON.stringify({ traceEvents, displayTimeUnit: "ms" })
+        }
+    }
+}
+
+/**
+ * Records how often and how long computed values and reactions run, until `stop()` is called on the returned profiler
+ */
+export function startProfiling(): IProfiler {
+    if (globalState.profiler) {
+        die("'startProfiling()' can't be used while another profiler is running")
+    }
+    return (globalState.profiler = new Profiler())
+}
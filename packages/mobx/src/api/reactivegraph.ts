@@ -0,0 +1,220 @@
+import {
+    ComputedValue,
+    IDepTreeNode,
+    IDerivationState_,
+    IObservable,
+    ObservableObjectAdministration,
+    Reaction,
+    die
+} from "../internal"
+
+export interface IReactiveGraphNode {
+    /**
+     * The name of the node, followed by `#2`, `#3` etc. if other nodes have the same name
+     */
+    id: string
+    name: string
+    kind: "atom" | "computed" | "reaction"
+    /**
+     * Whether a computed value or reaction needs to run, based on its `dependenciesState_`
+     */
+    state?: "not-tracking" | "up-to-date" | "possibly-stale" | "stale"
+    observers: number
+    dependencies: number
+    keepAlive?: boolean
+    /**
+     * The name of the observable object the node belongs to, and its property
+     */
+    owner?: string
+    property?: string
+}
+
+export interface IReactiveGraphEdge {
+    /**
+     * The id of the computed value or reaction
+     */
+    from: string
+    /**
+     * The id of the observable it depends on
+     */
+    to: string
+}
+
+export interface IReactiveGraph {
+    nodes: IReactiveGraphNode[]
+    edges: IReactiveGraphEdge[]
+}
+
+export interface IReactiveGraphDiff {
+    addedNodes: IReactiveGraphNode[]
+    removedNodes: IReactiveGraphNode[]
+    changedNodes: { before: IReactiveGraphNode; after: IReactiveGraphNode }[]
+    addedEdges: IReactiveGraphEdge[]
+    removedEdges: IReactiveGraphEdge[]
+}
+
+// references to the reactions that are not disposed yet, weak so that they can still be garbage collected
+const liveReactions = new Set<WeakRef<Reaction>>()
+
+// removes the references to reactions that are garbage collected without being disposed
+const liveReactionsRegistry =
+    typeof FinalizationRegistry !== "undefined"
+        ? new FinalizationRegistry<WeakRef<Reaction>>(ref => liveReactions.delete(ref))
+        : undefined
+
+export function registerLiveReaction(reaction: Reaction): WeakRef<Reaction> | undefined {
+    if (typeof WeakRef !== "undefined") {
+        const ref = new WeakRef(reaction)
+        liveReactions.add(ref)
+        liveReactionsRegistry?.register(reaction, ref, ref)
+        return ref
+    }
+    return undefined
+}
+
+export function unregisterLiveReaction(ref: WeakRef<Reaction> | undefined) {
+    if (ref) {
+        liveReactions.delete(ref)
+        liveReactionsRegistry?.unregister(ref)
+    }
+}
+
+// the observable objects that observable values and computed values belong to, with the key of their property
+const propertyOwners = new WeakMap<
+    IDepTreeNode,
+    { adm_: ObservableObjectAdministration; key_: PropertyKey }
+>()
+
+export function registerPropertyOwner(
+    node: IDepTreeNode,
+    adm: ObservableObjectAdministration,
+    key: PropertyKey
+) {
+    propertyOwners.set(node, { adm_: adm, key_: key })
+}
+
+const states = {
+    [IDerivationState_.NOT_TRACKING_]: "not-tracking",
+    [IDerivationState_.UP_TO_DATE_]: "up-to-date",
+    [IDerivationState_.POSSIBLY_STALE_]: "possibly-stale",
+    [IDerivationState_.STALE_]: "stale"
+} as const
+
+/**
+ * Returns all reactions that are not disposed, and the computed values and observables they depend on, directly or indirectly
+ */
+export function getReactiveGraph(): IReactiveGraph {
+    if (!__DEV__) {
+        die(`getReactiveGraph() is not available in production builds`)
+    }
+    if (typeof WeakRef === "undefined") {
+        die(`getReactiveGraph() requires WeakRef to be available`)
+    }
+    const ids = new Map<IDepTreeNode, string>()
+    const nameCounts = new Map<string, number>()
+    // the nodes that got an id, in the order they are added to the graph
+    const queue: IDepTreeNode[] = []
+    const nodes: IReactiveGraphNode[] = []
+    const edges: IReactiveGraphEdge[] = []
+
+    function getId(node: IDepTreeNode): string {
+        let id = ids.get(node)
+        if (id === undefined) {
+            const count = (nameCounts.get(node.name_) || 0) + 1
+            nameCounts.set(node.name_, count)
+            id = count === 1 ? node.name_ : `${node.name_}#${count}`
+            ids.set(node, id)
+            queue.push(node)
+        }
+        return id
+    }
+
+    liveReactions.forEach(ref => {
+        const reaction = ref.deref()
+        if (!reaction || reaction.isDisposed_) {
+            liveReactions.delete(ref)
+        } else {
+            getId(reaction)
+        }
+    })
+    for (let i = 0; i < queue.length; i++) {
+        const node = queue[i]
+        const id = ids.get(node)!
+        const dependencies = node.observing_ ? Array.from(new Set(node.observing_)) : []
+        const graphNode: IReactiveGraphNode = {
+            id,
+            name: node.name_,
+            kind:
+                node instanceof Reaction
+                    ? "reaction"
+                    : node instanceof ComputedValue
+                    ? "computed"
+                    : "atom",
+            observers: node instanceof Reaction ? 0 : (node as IObservable).observers_.size,
+            dependencies: dependencies.length
+        }
+        if (node instanceof Reaction || node instanceof ComputedValue) {
+            graphNode.state = states[node.dependenciesState_]
+        }
+        if (node instanceof ComputedValue) {
+            graphNode.keepAlive = node.keepAlive_
+        }
+        const property = propertyOwners.get(node)
+        if (property) {
+            graphNode.owner = property.adm_.name_
+            graphNode.property = property.key_.toString()
+        }
+        nodes.push(graphNode)
+        dependencies.forEach(dependency => edges.push({ from: id, to: getId(dependency) }))
+    }
+    return { nodes, edges }
+}
+
+const shapes = { atom: "ellipse", computed: "box", reaction: "octagon" } as const
+
+/**
+ * Converts a graph returned by `getReactiveGraph()` to the DOT format of Graphviz
+ */
+export function reactiveGraphToDot(graph: IReactiveGraph): string {
+    const quote = (value: string) => JSON.stringify(value)
+    const lines = ["digraph mobx {"]
+    graph.nodes.forEach(node => {
+        const style =
+            node.state === "stale" || node.state === "possibly-stale" ? ", style=dashed" : ""
+        lines.push(`    ${quote(node.id)} [shape=${shapes[node.kind]}${style}];`)
+    })
+    graph.edges.forEach(edge => {
+        lines.push(`    ${quote(edge.from)} -> ${quote(edge.to)};`)
+    })
+    lines.push("}")
+    return lines.join("\n")
+}
+
+/**
+ * Compares two graphs returned by `getReactiveGraph()`, nodes are matched by their id
+ */
+export function diffReactiveGraphs(
+    before: IReactiveGraph,
+    after: IReactiveGraph
+): IReactiveGraphDiff {
+    const beforeNodes = new Map(before.nodes.map(node => [node.id, node]))
+    const afterNodes = new Map(after.nodes.map(node => [node.id, node]))
+    const edgeKey = (edge: IReactiveGraphEdge) => JSON.stringify([edge.from, edge.to])
+    const beforeEdges = new Set(before.edges.map(edgeKey))
+    const afterEdges = new Set(after.edges.map(edgeKey))
+
+    const changedNodes: IReactiveGraphDiff["changedNodes"] = []
+    after.nodes.forEach(node => {
+        const previous = beforeNodes.get(node.id)
+        if (previous && JSON.stringify(previous) !== JSON.stringify(node)) {
+            changedNodes.push({ before: previous, after: node })
+        }
+    })
+    return {
+        addedNodes: after.nodes.filter(node => !beforeNodes.has(node.id)),
+        removedNodes: before.nodes.filter(node => !afterNodes.has(node.id)),
+        changedNodes,
+        addedEdges: after.edges.filter(edge => !beforeEdges.has(edgeKey(edge))),
+        removedEdges: before.edges.filter(edge => !afterEdges.has(edgeKey(edge)))
+    }
+}
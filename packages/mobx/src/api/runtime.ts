@@ -0,0 +1,28 @@
+import { MobXGlobals, runWithGlobalState } from "../internal"
+
+export interface IMobxRuntime {
+    /**
+     * Runs `fn` with this runtime as the current one, and returns its result.
+     * Batches, spies and `configure` calls inside `fn`, including reaction schedulers, only affect this runtime.
+     * `fn` runs synchronously: code after an `await` runs in the default runtime again.
+     */
+    run<T>(fn: () => T): T
+}
+
+class MobxRuntime implements IMobxRuntime {
+    private globalState_ = new MobXGlobals()
+
+    run<T>(fn: () => T): T {
+        return runWithGlobalState(this.globalState_, fn)
+    }
+}
+
+/**
+ * Creates a runtime with its own global state: batch depth, pending reactions, spy listeners and configuration.
+ * Observables, computed values and reactions created inside `runtime.run()` belong to that runtime:
+ * changes are batched, computations run and reactions are scheduled there, even when triggered from outside.
+ * A runtime only ever runs its own reactions.
+ */
+export function createMobxRuntime(): IMobxRuntime {
+    return new MobxRuntime()
+}
@@ -0,0 +1,167 @@
+import {
+    $mobx,
+    ObservableObjectAdministration,
+    ObservableValue,
+    comparer,
+    die,
+    executeAction,
+    getPlainObjectKeys,
+    isDeepObservable,
+    isES6Map,
+    isES6Set,
+    isObject,
+    isObservableArray,
+    isObservableMap,
+    isObservableObject,
+    isObservableSet,
+    isPlainObject,
+    remove,
+    set,
+    toJS
+} from "../internal"
+
+/**
+ * Returns a plain copy of an observable object, array, map or set, that can be passed to `applySnapshot` later on.
+ */
+export function getSnapshot<T>(source: T): T {
+    if (!isDeepObservable(source)) {
+        die("'getSnapshot()' can only be used on observable objects, arrays, maps and sets")
+    }
+    return toJS(source)
+}
+
+// Can `target` be updated in place to become `snapshot`?
+function canReconcile(target: any, snapshot: any): boolean {
+    if (isObservableObject(target)) {
+        return isPlainObject(snapshot)
+    }
+    if (isObservableArray(target)) {
+        return Array.isArray(snapshot)
+    }
+    if (isObservableMap(target)) {
+        return isES6Map(snapshot) || isPlainObject(snapshot)
+    }
+    if (isObservableSet(target)) {
+        return isES6Set(snapshot) || Array.isArray(snapshot)
+    }
+    return false
+}
+
+/**
+ * Updates a single member of a collection.
+ * Observable values are reconciled in place if possible, so their identity is kept.
+ */
+function reconcileValue(current: any, snapshot: any, update: (value: any) => void) {
+    if (canReconcile(current, snapshot)) {
+        reconcile(current, snapshot)
+    } else if (!comparer.structural(current, snapshot)) {
+        update(snapshot)
+    }
+}
+
+function reconcileObject(target: any, snapshot: object) {
+    const adm: ObservableObjectAdministration = target[$mobx]
+    // class instances keep their shape, only plain objects lose the keys that are absent in the snapshot
+    if (adm.isPlainObject_) {
+        adm.values_.forEach((observable, key) => {
+            if (observable instanceof ObservableValue && !(key in snapshot)) {
+                remove(target, key as string)
+            }
+        })
+    }
+    getPlainObjectKeys(snapshot).forEach(key => {
+        const observable = adm.values_.get(key)
+        if (observable instanceof ObservableValue) {
+            reconcileValue(observable.value_, snapshot[key], value => set(target, key, value))
+        } else if (!observable) {
+            // computeds are derived from the state, so they can't be restored
+            set(target, key, snapshot[key])
+        }
+    })
+}
+
+function reconcileArray(target: any[], snapshot: any[]) {
+    const values = target[$mobx].values_
+    const commonLength = Math.min(values.length, snapshot.length)
+    for (let i = 0; i < commonLength; i++) {
+        reconcileValue(values[i], snapshot[i], value => (target[i] = value))
+    }
+    if (values.length > snapshot.length) {
+        target.splice(snapshot.length)
+    } else if (snapshot.length > commonLength) {
+        target.push(...snapshot.slice(commonLength))
+    }
+}
+
+function reconcileMap(target: Map<any, any>, snapshot: Map<any, any> | object) {
+    const entries: Map<any, any> = isES6Map(snapshot)
+        ? snapshot
+        : new Map(getPlainObjectKeys(snapshot).map(key => [key, snapshot[key]]))
+    Array.from(target.keys()).forEach(key => {
+        if (!entries.has(key)) {
+            target.delete(key)
+        }
+    })
+    entries.forEach((value, key) => {
+        if (target.has(key)) {
+            reconcileValue(target.get(key), value, newValue => target.set(key, newValue))
+        } else {
+            target.set(key, value)
+        }
+    })
+}
+
+function reconcileSet(target: Set<any>, snapshot: Set<any> | any[]) {
+    const members = new Set(snapshot)
+    // primitives are matched by lookup, only the objects that are left over are compared structurally
+    const removed = Array.from(target).filter(value => !members.has(value))
+    const added = Array.from(members).filter(value => !target.has(value))
+    const includes = (list: any[], value: any) =>
+        isObject(value) && list.some(item => isObject(item) && comparer.structural(item, value))
+    removed.forEach(value => {
+        if (!includes(added, value)) {
+            target.delete(value)
+        }
+    })
+    added.forEach(value => {
+        if (!includes(removed, value)) {
+            target.add(value)
+        }
+    })
+}
+
+function reconcile(target: any, snapshot: any) {
+    if (isObservableObject(target)) {
+        reconcileObject(target, snapshot)
+    } else if (isObservableArray(target)) {
+        reconcileArray(target, snapshot)
+    } else if (isObservableMap(target)) {
+        reconcileMap(target, snapshot)
+    } else {
+        reconcileSet(target, snapshot)
+    }
+}
+
+/**
+ * Updates an observable object, array, map or set, so that it structurally equals the given snapshot.
+ * Only members that are different are updated, so nested observables keep their identity and
+ * computed values that don't depend on the changed members won't recompute.
+ * The snapshot is applied in a single action.
+ */
+export function applySnapshot(target: Object, snapshot: any): void {
+    if (!isDeepObservable(target)) {
+        die("'applySnapshot()' can only be used on observable objects, arrays, maps and sets")
+    }
+    if (!canReconcile(target, snapshot)) {
+        die(`Cannot apply snapshot '${snapshot}', it doesn't match the type of the target`)
+    }
+    executeAction(
+        "applySnapshot",
+        false,
+        () => {
+            reconcile(target, snapshot)
+        },
+        undefined,
+        undefined
+    )
+}
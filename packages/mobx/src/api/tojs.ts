@@ -1,54 +1,138 @@
 import {
+    $mobx,
     isObservable,
     isObservableArray,
     isObservableValue,
     isObservableMap,
     isObservableSet,
+    isObservableWeakMap,
+    isObservableWeakSet,
+    isObservableSortedArray,
+    isObservableSortedMap,
     isComputedValue,
     die,
     apiOwnKeys,
-    objectPrototype
+    getDebugName,
+    objectPrototype,
+    EMPTY_OBJECT
 } from "../internal"
 
-function cache<K, V>(map: Map<any, any>, key: K, value: V): V {
-    map.set(key, value)
+export type IToJSConverter = (value: any, toJS: (value: any) => any) => any
+
+export interface IToJSOptions {
+    /**
+     * Include the computed properties of observable objects
+     */
+    includeComputed?: boolean
+    /**
+     * Pairs of a type and a function that converts instances of that type, for example `[Date, d => d.toISOString()]`.
+     * The first matching converter wins. `Map`, `Set` and `Array` match their observable counterparts as well.
+     * Converters are also used for non-observable values.
+     */
+    converters?: ReadonlyArray<[Function, IToJSConverter]>
+    /**
+     * Observable collections nested deeper than this depth are omitted. The source itself has depth 1.
+     */
+    maxDepth?: number
+    /**
+     * Throw when an observable contains itself, instead of reusing the converted value
+     */
+    detectCycles?: boolean
+}
+
+interface IToJSContext {
+    options_: IToJSOptions
+    maxDepth_: number
+    cache_: Map<any, any> | undefined
+    ancestors_: Set<any> | undefined
+}
+
+function cache<K, V>(map: Map<any, any> | undefined, key: K, value: V): V {
+    map?.set(key, value)
     return value
 }
 
-function toJSHelper(source, __alreadySeen: Map<any, any>) {
+function findConverter(
+    converters: ReadonlyArray<[Function, IToJSConverter]>,
+    source: any
+): IToJSConverter | undefined {
+    for (let i = 0; i < converters.length; i++) {
+        const [type, converter] = converters[i]
+        if (
+            source instanceof type ||
+            (type === Map && (isObservableMap(source) || isObservableSortedMap(source))) ||
+            (type === Array && isObservableSortedArray(source)) ||
+            (type === Set && isObservableSet(source))
+        ) {
+            return converter
+        }
+    }
+    return undefined
+}
+
+function toJSHelper(source, context: IToJSContext, depth: number) {
+    const { converters } = context.options_
+    if (converters && source != null && typeof source === "object") {
+        const converter = findConverter(converters, source)
+        if (converter) {
+            return converter(source, value => toJSHelper(value, context, depth + 1))
+        }
+    }
     if (
         source == null ||
         typeof source !== "object" ||
         source instanceof Date ||
-        !isObservable(source)
+        !isObservable(source) ||
+        // weak collections can't be iterated
+        isObservableWeakMap(source) ||
+        isObservableWeakSet(source)
     ) {
         return source
     }
 
     if (isObservableValue(source) || isComputedValue(source)) {
-        return toJSHelper(source.get(), __alreadySeen)
+        return toJSHelper(source.get(), context, depth)
+    }
+    if (depth > context.maxDepth_) {
+        return undefined
     }
-    if (__alreadySeen.has(source)) {
+    if (context.ancestors_) {
+        if (context.ancestors_.has(source)) {
+            die(`toJS detected a cycle: '${getDebugName(source)}' contains itself`)
+        }
+        context.ancestors_.add(source)
+        try {
+            return convertObservable(source, context, depth)
+        } finally {
+            context.ancestors_.delete(source)
+        }
+    }
+    return convertObservable(source, context, depth)
+}
+
+function convertObservable(source, context: IToJSContext, depth: number) {
+    const __alreadySeen = context.cache_
+    if (__alreadySeen?.has(source)) {
         return __alreadySeen.get(source)
     }
-    if (isObservableArray(source)) {
+    if (isObservableArray(source) || isObservableSortedArray(source)) {
         const res = cache(__alreadySeen, source, new Array(source.length))
         source.forEach((value, idx) => {
-            res[idx] = toJSHelper(value, __alreadySeen)
+            res[idx] = toJSHelper(value, context, depth + 1)
         })
         return res
     }
     if (isObservableSet(source)) {
         const res = cache(__alreadySeen, source, new Set())
         source.forEach(value => {
-            res.add(toJSHelper(value, __alreadySeen))
+            res.add(toJSHelper(value, context, depth + 1))
         })
         return res
     }
-    if (isObservableMap(source)) {
+    if (isObservableMap(source) || isObservableSortedMap(source)) {
         const res = cache(__alreadySeen, source, new Map())
         source.forEach((value, key) => {
-            res.set(key, toJSHelper(value, __alreadySeen))
+            res.set(key, toJSHelper(value, context, depth + 1))
         })
         return res
     } else {
@@ -56,9 +140,16 @@ function toJSHelper(source, __alreadySeen: Map<any, any>) {
         const res = cache(__alreadySeen, source, {})
         apiOwnKeys(source).forEach((key: any) => {
             if (objectPrototype.propertyIsEnumerable.call(source, key)) {
-                res[key] = toJSHelper(source[key], __alreadySeen)
+                res[key] = toJSHelper(source[key], context, depth + 1)
             }
         })
+        if (context.options_.includeComputed) {
+            source[$mobx].values_.forEach((value, key) => {
+                if (isComputedValue(value)) {
+                    res[key] = toJSHelper(value.get(), context, depth + 1)
+                }
+            })
+        }
         return res
     }
 }
@@ -66,12 +157,24 @@ function toJSHelper(source, __alreadySeen: Map<any, any>) {
 /**
  * Recursively converts an observable to it's non-observable native counterpart.
  * It does NOT recurse into non-observables, these are left as they are, even if they contain observables.
- * Computed and other non-enumerable properties are completely ignored.
+ * Computed and other non-enumerable properties are ignored, unless `includeComputed` is set.
  * Complex scenarios require custom solution, eg implementing `toJSON` or using `serializr` lib.
  */
-export function toJS<T>(source: T, options?: any): T {
-    if (__DEV__ && options) {
-        die("toJS no longer supports options")
+export function toJS<T>(source: T, options?: IToJSOptions): T {
+    options ||= EMPTY_OBJECT
+    if (__DEV__ && "recurseEverything" in options) {
+        die("toJS no longer supports the 'recurseEverything' option")
     }
-    return toJSHelper(source, new Map())
+    // with a depth limit the same observable might be converted differently depending on where it is found
+    const maxDepth = options.maxDepth ?? Infinity
+    return toJSHelper(
+        source,
+        {
+            options_: options,
+            maxDepth_: maxDepth,
+            cache_: maxDepth === Infinity ? new Map() : undefined,
+            ancestors_: options.detectCycles ? new Set() : undefined
+        },
+        1
+    )
 }
@@ -0,0 +1,253 @@
+import {
+    Atom,
+    ComputedValue,
+    IActionRunInfo,
+    ITreeChange,
+    Lambda,
+    Reaction,
+    _getOutermostAction,
+    createBatchFlusher,
+    die,
+    executeAction,
+    getNextId,
+    isDeepObservable,
+    isObservableArray,
+    isObservableMap,
+    isObservableSet,
+    observeTree,
+    remove,
+    set
+} from "../internal"
+
+export interface IUndoManagerOptions {
+    /**
+     * The maximum amount of entries that can be undone, older entries are dropped. Defaults to 100.
+     */
+    maxHistory?: number
+    /**
+     * Called when an action is finished with the same name as the previous one.
+     * If it returns `true`, both actions are undone and redone as a single entry. Useful for e.g. typing or dragging.
+     */
+    mergeActions?: (actionName: string) => boolean
+}
+
+export interface IUndoManager {
+    readonly canUndo: boolean
+    readonly canRedo: boolean
+    undo(): void
+    redo(): void
+    clear(): void
+    dispose(): void
+}
+
+interface IUndoEntry {
+    name_: string | undefined
+    changes_: ITreeChange[]
+}
+
+const revertedOps = { add: "remove", remove: "add", replace: "replace" } as const
+
+/**
+ * Replays or reverts a change on the collection in which it happened.
+ * This uses the original key, as paths can't express map keys that aren't strings.
+ */
+function applyChange(change: ITreeChange, revert: boolean) {
+    const { object_: object, key_: key } = change
+    if (change.op_ === "move") {
+        if (revert) {
+            object.move(key, change.from_)
+        } else {
+            object.move(change.from_, key)
+        }
+        return
+    }
+    const op = revert ? revertedOps[change.op_] : change.op_
+    const value = revert ? change.oldValue_ : change.value_
+    if (isObservableArray(object)) {
+        if (op === "add") {
+            object.splice(key, 0, value)
+        } else if (op === "remove") {
+            object.splice(key, 1)
+        } else {
+            set(object, key, value)
+        }
+    } else if (isObservableSet(object)) {
+        if (op === "remove") {
+            object.delete(key)
+        } else {
+            object.add(key)
+        }
+    } else if (isObservableMap(object)) {
+        if (op === "remove") {
+            object.delete(key)
+        } else {
+            object.set(key, value)
+        }
+    } else if (op === "remove") {
+        remove(object, key)
+    } else {
+        set(object, key, value)
+    }
+}
+
+class UndoManager implements IUndoManager {
+    private undoStack_: IUndoEntry[] = []
+    private redoStack_: IUndoEntry[] = []
+    private atom_: Atom
+    private canUndo_: ComputedValue<boolean>
+    private canRedo_: ComputedValue<boolean>
+    private pending_: IUndoEntry | undefined
+    private pendingAction_: IActionRunInfo | undefined
+    // whether the next entry may be merged into the last one
+    private mergeable_ = false
+    private isApplying_ = false
+    private flusher_: Reaction
+    private disposeTree_: Lambda
+
+    constructor(root: Object, private options_: IUndoManagerOptions, name: string) {
+        this.atom_ = new Atom(name)
+        this.canUndo_ = new ComputedValue({
+            name: name + ".canUndo",
+            get: () => {
+                this.atom_.reportObserved()
+                return this.undoStack_.length > 0
+            }
+        })
+        this.canRedo_ = new ComputedValue({
+            name: name + ".canRedo",
+            get: () => {
+                this.atom_.reportObserved()
+                return this.redoStack_.length > 0
+            }
+        })
+        this.flusher_ = createBatchFlusher(name + ".flush", () => this.commit_())
+        this.disposeTree_ = observeTree(root, (_patch, change) => this.record_(change))
+    }
+
+    get canUndo() {
+        return this.canUndo_.get()
+    }
+
+    get canRedo() {
+        return this.canRedo_.get()
+    }
+
+    private record_(change: ITreeChange) {
+        if (this.isApplying_) {
+            return
+        }
+        const action = _getOutermostAction()
+        if (this.pending_ && this.pendingAction_ !== action) {
+            this.commit_()
+        }
+        if (!this.pending_) {
+            this.pending_ = { name_: action?.name_, changes_: [] }
+            this.pendingAction_ = action
+        }
+        this.pending_.changes_.push(change)
+        this.flusher_.schedule_()
+    }
+
+    private commit_() {
+        const entry = this.pending_
+        if (!entry) {
+            return
+        }
+        this.pending_ = this.pendingAction_ = undefined
+        const last = this.undoStack_[this.undoStack_.length - 1]
+        if (
+            this.mergeable_ &&
+            last &&
+            entry.name_ !== undefined &&
+            entry.name_ === last.name_ &&
+            this.options_.mergeActions?.(entry.name_)
+        ) {
+            last.changes_.push(...entry.changes_)
+        } else {
+            this.pushUndoEntry_(entry)
+        }
+        this.redoStack_ = []
+        this.mergeable_ = true
+        this.atom_.reportChanged()
+    }
+
+    // drops the oldest entries beyond `maxHistory`
+    private pushUndoEntry_(entry: IUndoEntry) {
+        this.undoStack_.push(entry)
+        const maxHistory = this.options_.maxHistory ?? 100
+        if (this.undoStack_.length > maxHistory) {
+            this.undoStack_.splice(0, this.undoStack_.length - maxHistory)
+        }
+    }
+
+    private apply_(entry: IUndoEntry, revert: boolean) {
+        this.isApplying_ = true
+        try {
+            executeAction(
+                revert ? "undo" : "redo",
+                false,
+                () => {
+                    const { changes_ } = entry
+                    if (revert) {
+                        for (let i = changes_.length - 1; i >= 0; i--) {
+                            applyChange(changes_[i], true)
+                        }
+                    } else {
+                        changes_.forEach(change => applyChange(change, false))
+                    }
+                },
+                undefined,
+                undefined
+            )
+        } finally {
+            this.isApplying_ = false
+        }
+    }
+
+    undo() {
+        this.commit_()
+        const entry = this.undoStack_.pop()
+        if (entry) {
+            this.apply_(entry, true)
+            this.redoStack_.push(entry)
+            this.mergeable_ = false
+            this.atom_.reportChanged()
+        }
+    }
+
+    redo() {
+        this.commit_()
+        const entry = this.redoStack_.pop()
+        if (entry) {
+            this.apply_(entry, false)
+            this.pushUndoEntry_(entry)
+            this.mergeable_ = false
+            this.atom_.reportChanged()
+        }
+    }
+
+    clear() {
+        this.commit_()
+        this.undoStack_ = []
+        this.redoStack_ = []
+        this.mergeable_ = false
+        this.atom_.reportChanged()
+    }
+
+    dispose() {
+        this.flusher_.dispose()
+        this.disposeTree_()
+        this.pending_ = this.pendingAction_ = undefined
+    }
+}
+
+/**
+ * Records all changes made to an observable object, array, map or set and everything within it,
+ * so that they can be undone and redone. Changes are grouped per outermost action.
+ */
+export function createUndoManager(root: Object, options: IUndoManagerOptions = {}): IUndoManager {
+    if (!isDeepObservable(root)) {
+        die("'createUndoManager()' can only be used on observable objects, arrays, maps and sets")
+    }
+    return new UndoManager(root, options, __DEV__ ? "UndoManager@" + getNextId() : "UndoManager")
+}
@@ -0,0 +1,160 @@
+import { MobXGlobals, die, globalState } from "../internal"
+
+export interface IVirtualScheduler {
+    /**
+     * The virtual time in milliseconds, starts at 0
+     */
+    readonly now: number
+    /**
+     * The amount of scheduled reaction runs and timers
+     */
+    readonly pendingCount: number
+    /**
+     * Runs everything that is due at the current virtual time, including what is scheduled by it
+     */
+    flush(): void
+    /**
+     * Moves the virtual time forward, running everything that becomes due in order of time
+     */
+    advanceBy(ms: number): void
+    /**
+     * Runs the next scheduled task, moving the virtual time forward if needed.
+     * Returns `false` if there was nothing to run.
+     */
+    runNext(): boolean
+    /**
+     * Uninstalls the scheduler, everything that is still scheduled is dropped
+     */
+    dispose(): void
+}
+
+interface IVirtualTask {
+    time_: number
+    fn_: () => void
+    scheduler_: VirtualScheduler
+}
+
+export class VirtualScheduler implements IVirtualScheduler {
+    private now_ = 0
+    // sorted by time, tasks with the same time run in the order they were scheduled
+    private tasks_: IVirtualTask[] = []
+    private reactionTask_: IVirtualTask | undefined
+    // the global state of the runtime the scheduler is installed in
+    globalState_: MobXGlobals | undefined
+
+    get now() {
+        return this.now_
+    }
+
+    get pendingCount() {
+        return this.tasks_.length
+    }
+
+    schedule_(fn: () => void, ms: number): IVirtualTask {
+        const task: IVirtualTask = {
+            time_: this.now_ + Math.max(0, ms || 0),
+            fn_: fn,
+            scheduler_: this
+        }
+        let index = this.tasks_.length
+        while (index > 0 && this.tasks_[index - 1].time_ > task.time_) {
+            index--
+        }
+        this.tasks_.splice(index, 0, task)
+        return task
+    }
+
+    cancel_(task: IVirtualTask) {
+        const index = this.tasks_.indexOf(task)
+        if (index !== -1) {
+            this.tasks_.splice(index, 1)
+        }
+    }
+
+    scheduleReactions_(fn: () => void) {
+        // all pending reactions run in a single task
+        if (!this.reactionTask_) {
+            this.reactionTask_ = this.schedule_(() => {
+                this.reactionTask_ = undefined
+                fn()
+            }, 0)
+        }
+    }
+
+    flush() {
+        while (this.tasks_.length && this.tasks_[0].time_ <= this.now_) {
+            this.runNext()
+        }
+    }
+
+    advanceBy(ms: number) {
+        if (!(ms >= 0)) {
+            die("'advanceBy()' can't move the virtual time backwards")
+        }
+        const time = this.now_ + ms
+        while (this.tasks_.length && this.tasks_[0].time_ <= time) {
+            this.runNext()
+        }
+        this.now_ = time
+    }
+
+    runNext() {
+        const task = this.tasks_.shift()
+        if (!task) {
+            return false
+        }
+        this.now_ = Math.max(this.now_, task.time_)
+        task.fn_()
+        return true
+    }
+
+    dispose() {
+        this.tasks_ = []
+        this.reactionTask_ = undefined
+        if (this.globalState_?.virtualScheduler === this) {
+            this.globalState_.virtualScheduler = undefined
+        }
+        this.globalState_ = undefined
+    }
+}
+
+/**
+ * Creates a scheduler with a virtual clock, that can be installed with `configure({ reactionScheduler })`.
+ * Once installed, reactions and the timers of `delay`, `timeout` and `debounce` options only run when the scheduler is told to.
+ */
+export function createVirtualScheduler(): IVirtualScheduler {
+    return new VirtualScheduler()
+}
+
+export function setVirtualScheduler(scheduler: VirtualScheduler) {
+    if (globalState.virtualScheduler === scheduler) {
+        return
+    }
+    if (scheduler.globalState_) {
+        die("A virtual scheduler can only be installed in one runtime")
+    }
+    // replaces the previously installed virtual scheduler of this runtime, instead of wrapping it
+    globalState.virtualScheduler?.dispose()
+    scheduler.globalState_ = globalState
+    globalState.virtualScheduler = scheduler
+}
+
+export function getVirtualScheduler(): VirtualScheduler | undefined {
+    return globalState.virtualScheduler
+}
+
+/**
+ * `setTimeout` that is controlled by the virtual scheduler of the current runtime, if one is installed
+ */
+export function scheduleTimeout(fn: () => void, ms: number): any {
+    const { virtualScheduler } = globalState
+    return virtualScheduler ? virtualScheduler.schedule_(fn, ms) : setTimeout(fn, ms)
+}
+
+export function cancelTimeout(handle: any) {
+    if (handle && handle.scheduler_ instanceof VirtualScheduler) {
+        handle.scheduler_.cancel_(handle)
+    } else {
+        clearTimeout(handle)
+    }
+}
@@ -6,7 +6,10 @@ import {
     createAction,
     getNextId,
     die,
-    allowStateChanges
+    allowStateChanges,
+    ReactionPriority,
+    scheduleTimeout,
+    cancelTimeout
 } from "../internal"
 
 export interface IWhenOptions {
@@ -14,6 +17,7 @@ export interface IWhenOptions {
     timeout?: number
     onError?: (error: any) => void
     signal?: AbortSignal
+    priority?: ReactionPriority
 }
 
 export function when(
@@ -36,7 +40,7 @@ function _when(predicate: () => boolean, effect: Lambda, opts: IWhenOptions): IR
     let timeoutHandle: any
     if (typeof opts.timeout === "number") {
         const error = new Error("WHEN_TIMEOUT")
-        timeoutHandle = setTimeout(() => {
+        timeoutHandle = scheduleTimeout(() => {
             if (!disposer[$mobx].isDisposed_) {
                 disposer()
                 if (opts.onError) {
@@ -60,7 +64,7 @@ function _when(predicate: () => boolean, effect: Lambda, opts: IWhenOptions): IR
         if (cond) {
             r.dispose()
             if (timeoutHandle) {
-                clearTimeout(timeoutHandle)
+                cancelTimeout(timeoutHandle)
             }
             effectAction()
         }
@@ -21,6 +21,8 @@ import {
 // mobx versions
 let currentActionId = 0
 let nextActionId = 1
+// the run info of the outermost running action, used to group changes per action, e.g. by the undo manager
+let outermostRunInfo: IActionRunInfo | undefined
 const isFunctionNameConfigurable = getDescriptor(() => {}, "name")?.configurable ?? false
 
 // we can safely recycle this object
@@ -31,12 +33,12 @@ const tmpNameDescriptor: PropertyDescriptor = {
     enumerable: false
 }
 
-export function createAction(
+export function createAction<T extends Function>(
     actionName: string,
-    fn: Function,
+    fn: T,
     autoAction: boolean = false,
     ref?: Object
-): Function {
+): T {
     if (__DEV__) {
         if (!isFunction(fn)) {
             die("`action` can only be invoked on functions")
@@ -53,7 +55,7 @@ export function createAction(
         tmpNameDescriptor.value = actionName
         Object.defineProperty(res, "name", tmpNameDescriptor)
     }
-    return res
+    return res as unknown as T
 }
 
 export function executeAction(
@@ -84,6 +86,7 @@ export interface IActionRunInfo {
     parentActionId_: number
     actionId_: number
     runAsAction_?: boolean
+    name_: string
 }
 
 export function _startAction(
@@ -92,9 +95,9 @@ export function _startAction(
     scope: any,
     args?: IArguments
 ): IActionRunInfo {
-    const notifySpy_ = __DEV__ && isSpyEnabled() && !!actionName
+    const notifySpy_ = isSpyEnabled() && !!actionName
     let startTime_: number = 0
-    if (__DEV__ && notifySpy_) {
+    if (notifySpy_) {
         startTime_ = Date.now()
         const flattenedArgs = args ? Array.from(args) : EMPTY_ARRAY
         spyReportStart({
@@ -121,7 +124,11 @@ export function _startAction(
         notifySpy_,
         startTime_,
         actionId_: nextActionId++,
-        parentActionId_: currentActionId
+        parentActionId_: currentActionId,
+        name_: actionName
+    }
+    if (!currentActionId) {
+        outermostRunInfo = runInfo
     }
     currentActionId = runInfo.actionId_
     return runInfo
@@ -132,20 +139,31 @@ export function _endAction(runInfo: IActionRunInfo) {
         die(30)
     }
     currentActionId = runInfo.parentActionId_
+    if (!currentActionId) {
+        outermostRunInfo = undefined
+    }
 
     if (runInfo.error_ !== undefined) {
         globalState.suppressReactionErrors = true
     }
     allowStateChangesEnd(runInfo.prevAllowStateChanges_)
     allowStateReadsEnd(runInfo.prevAllowStateReads_)
-    endBatch()
-    if (runInfo.runAsAction_) {
-        untrackedEnd(runInfo.prevDerivation_)
-    }
-    if (__DEV__ && runInfo.notifySpy_) {
-        spyReportEnd({ time: Date.now() - runInfo.startTime_ })
+    try {
+        // throws if the reactions don't converge and `onReactionCycle` throws
+        endBatch()
+    } finally {
+        if (runInfo.runAsAction_) {
+            untrackedEnd(runInfo.prevDerivation_)
+        }
+        if (runInfo.notifySpy_) {
+            spyReportEnd({ time: Date.now() - runInfo.startTime_ })
+        }
+        globalState.suppressReactionErrors = false
     }
-    globalState.suppressReactionErrors = false
+}
+
+export function _getOutermostAction(): IActionRunInfo | undefined {
+    return outermostRunInfo
 }
 
 export function allowStateChanges<T>(allowStateChanges: boolean, func: () => T): T {
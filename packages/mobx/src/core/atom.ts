@@ -2,14 +2,17 @@ import {
     IDerivationState_,
     IObservable,
     IDerivation,
+    MobXGlobals,
     createInstanceofPredicate,
     endBatch,
     getNextId,
+    globalState,
     noop,
     onBecomeObserved,
     onBecomeUnobserved,
     propagateChanged,
     reportObserved,
+    runWithGlobalState,
     startBatch,
     Lambda
 } from "../internal"
@@ -29,6 +32,8 @@ export class Atom implements IAtom {
     diffValue_ = 0
     lastAccessedBy_ = 0
     lowestObserverState_ = IDerivationState_.NOT_TRACKING_
+    // the runtime this atom was created in, changes are batched and propagated there
+    globalState_: MobXGlobals = globalState
     /**
      * Create a new atom. For debugging purposes it is recommended to give it a name.
      * The onBecomeObserved and onBecomeUnobserved callbacks can be used for resource management.
@@ -64,6 +69,10 @@ export class Atom implements IAtom {
      * Invoke this method _after_ this method has changed to signal mobx that all its observers should invalidate.
      */
     public reportChanged() {
+        if (this.globalState_ !== globalState) {
+            runWithGlobalState(this.globalState_, () => this.reportChanged())
+            return
+        }
         startBatch()
         propagateChanged(this)
         endBatch()
@@ -14,6 +14,8 @@ import {
     endBatch,
     getNextId,
     globalState,
+    MobXGlobals,
+    runWithGlobalState,
     isCaughtException,
     isSpyEnabled,
     propagateChangeConfirmed,
@@ -29,7 +31,9 @@ import {
     UPDATE,
     die,
     allowStateChangesStart,
-    allowStateChangesEnd
+    allowStateChangesEnd,
+    DerivationErrorRecovery,
+    scheduleRetry
 } from "../internal"
 
 export interface IComputedValue<T> {
@@ -46,6 +50,11 @@ export interface IComputedValueOptions<T> {
     context?: any
     requiresReaction?: boolean
     keepAlive?: boolean
+    /**
+     * Handles errors thrown by the derivation.
+     * Can return `"rethrow"`, `"keepLastValue"` or `{ retryAfter: milliseconds }` to decide how the computed value recovers.
+     */
+    onError?: (error: any, computed: IComputedValue<T>) => DerivationErrorRecovery | void
 }
 
 export type IComputedDidChange<T = any> = {
@@ -96,10 +105,13 @@ export class ComputedValue<T> implements IObservable, IComputedValue<T>, IDeriva
     derivation: () => T // N.B: unminified as it is used by MST
     setter_?: (value: T) => void
     isTracing_: TraceMode = TraceMode.NONE
+    // the runtime this computed value was created in, it is always computed there
+    globalState_: MobXGlobals = globalState
     scope_: Object | undefined
     private equals_: IEqualsComparer<any>
     private requiresReaction_: boolean | undefined
     keepAlive_: boolean
+    private onError_: IComputedValueOptions<T>["onError"]
 
     /**
      * Create a new computed value based on a function expression.
@@ -133,6 +145,7 @@ export class ComputedValue<T> implements IObservable, IComputedValue<T>, IDeriva
         this.scope_ = options.context
         this.requiresReaction_ = options.requiresReaction
         this.keepAlive_ = !!options.keepAlive
+        this.onError_ = options.onError
     }
 
     onBecomeStale_() {
@@ -171,7 +184,11 @@ export class ComputedValue<T> implements IObservable, IComputedValue<T>, IDeriva
             if (shouldCompute(this)) {
                 this.warnAboutUntrackedRead_()
                 startBatch() // See perf test 'computed memoization'
-                this.value_ = this.computeValue_(false)
+                const value = this.computeValue_(false)
+                // not observed, so there is no last value to keep or observer to retry for
+                this.value_ = isCaughtException(value)
+                    ? this.recoverFromError_(value, false)
+                    : value
                 endBatch()
             }
         } else {
@@ -216,7 +233,13 @@ export class ComputedValue<T> implements IObservable, IComputedValue<T>, IDeriva
         const oldValue = this.value_
         const wasSuspended =
             /* see #1208 */ this.dependenciesState_ === IDerivationState_.NOT_TRACKING_
-        const newValue = this.computeValue_(true)
+        let newValue = this.computeValue_(true)
+        if (isCaughtException(newValue)) {
+            newValue = this.recoverFromError_(
+                newValue,
+                !wasSuspended && !isCaughtException(oldValue)
+            )
+        }
 
         const changed =
             wasSuspended ||
@@ -227,7 +250,7 @@ export class ComputedValue<T> implements IObservable, IComputedValue<T>, IDeriva
         if (changed) {
             this.value_ = newValue
 
-            if (__DEV__ && isSpyEnabled()) {
+            if (isSpyEnabled()) {
                 spyReport({
                     observableKind: "computed",
                     debugObjectName: this.name_,
@@ -237,12 +260,17 @@ export class ComputedValue<T> implements IObservable, IComputedValue<T>, IDeriva
                     newValue
                 } as IComputedDidChange)
             }
+        } else {
+            globalState.profiler?.recordUnchangedRun_(this)
         }
 
         return changed
     }
 
     computeValue_(track: boolean) {
+        if (this.globalState_ !== globalState) {
+            return runWithGlobalState(this.globalState_, () => this.computeValue_(track))
+        }
         this.isComputing_ = true
         // don't allow state changes during computation
         const prev = allowStateChangesStart(false)
@@ -265,6 +293,26 @@ export class ComputedValue<T> implements IObservable, IComputedValue<T>, IDeriva
         return res
     }
 
+    recoverFromError_(exception: CaughtException, hasLastValue: boolean): T | CaughtException {
+        if (!this.onError_) {
+            return exception
+        }
+        const recovery = this.onError_(exception.cause, this)
+        if (__DEV__ && recovery === "dispose") {
+            die(`Computed value '${this.name_}' cannot be disposed, only reactions can`)
+        }
+        scheduleRetry(recovery, () => {
+            // observers will check whether the value changed
+            if (this.dependenciesState_ !== IDerivationState_.NOT_TRACKING_) {
+                startBatch()
+                this.dependenciesState_ = IDerivationState_.STALE_
+                propagateMaybeChanged(this)
+                endBatch()
+            }
+        })
+        return recovery === "keepLastValue" && hasLastValue ? (this.value_ as T) : exception
+    }
+
     suspend_() {
         if (!this.keepAlive_) {
             clearObserving(this)
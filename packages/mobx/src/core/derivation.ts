@@ -5,7 +5,8 @@ import {
     addObserver,
     globalState,
     isComputedValue,
-    removeObserver
+    removeObserver,
+    scheduleTimeout
 } from "../internal"
 
 export enum IDerivationState_ {
@@ -70,6 +71,46 @@ export function isCaughtException(e: any): e is CaughtException {
     return e instanceof CaughtException
 }
 
+/**
+ * What to do when a derivation throws, as returned from an `onError` handler:
+ * - `"rethrow"`: handle the error as if there was no `onError` handler
+ * - `"keepLastValue"`: computed values keep their last value instead of throwing
+ * - `"dispose"`: reactions are disposed
+ * - `{ retryAfter }`: the derivation runs again after the given amount of milliseconds
+ */
+export type DerivationErrorRecovery =
+    | "rethrow"
+    | "keepLastValue"
+    | "dispose"
+    | { retryAfter: number }
+
+export function scheduleRetry(recovery: DerivationErrorRecovery | void, retry: () => void) {
+    if (recovery && typeof recovery === "object") {
+        scheduleTimeout(retry, recovery.retryAfter)
+    }
+}
+
+/**
+ * Returns the derivations through which an exception propagated,
+ * starting with the given derivation and ending with the derivation that threw it
+ */
+export function getExceptionPath(derivation: IDerivation, cause: any): IDerivation[] {
+    const path = [derivation]
+    let current: IDerivation | undefined = derivation
+    while (current) {
+        current = current.observing_.find(
+            dep =>
+                isComputedValue(dep) &&
+                isCaughtException(dep["value_"]) &&
+                dep["value_"].cause === cause
+        ) as IDerivation | undefined
+        if (current) {
+            path.push(current)
+        }
+    }
+    return path
+}
+
 /**
  * Finds out whether any dependency of the derivation has actually changed.
  * If dependenciesState is 1 then it will recalculate dependencies,
@@ -175,6 +216,8 @@ export function trackDerivedFunction<T>(derivation: IDerivation, f: () => T, con
     const prevTracking = globalState.trackingDerivation
     globalState.trackingDerivation = derivation
     globalState.inBatch++
+    const { profiler } = globalState
+    const startTime = profiler ? profiler.now_() : 0
     let result
     if (globalState.disableErrorBoundaries === true) {
         result = f.call(context)
@@ -185,9 +228,13 @@ export function trackDerivedFunction<T>(derivation: IDerivation, f: () => T, con
             result = new CaughtException(e)
         }
     }
+    const endTime = profiler ? profiler.now_() : 0
     globalState.inBatch--
     globalState.trackingDerivation = prevTracking
     bindDependencies(derivation)
+    if (profiler && globalState.profiler === profiler) {
+        profiler.recordRun_(derivation, startTime, endTime)
+    }
 
     warnAboutDerivationWithoutDependencies(derivation)
     allowStateReadsEnd(prevAllowStateReads)
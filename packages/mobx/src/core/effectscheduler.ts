@@ -0,0 +1,229 @@
+import {
+    IAutorunOptions,
+    Lambda,
+    cancelTimeout,
+    die,
+    getGlobal,
+    getVirtualScheduler,
+    scheduleTimeout
+} from "../internal"
+
+export interface IDebounceOptions {
+    /**
+     * The amount of milliseconds without changes after which the effect runs
+     */
+    wait: number
+    /**
+     * Run the effect right away on the first change. Defaults to `false`.
+     */
+    leading?: boolean
+    /**
+     * Run the effect after the last change. Defaults to `true`.
+     */
+    trailing?: boolean
+    /**
+     * The maximum amount of milliseconds the effect is delayed while changes keep coming in
+     */
+    maxWait?: number
+}
+
+/**
+ * Decides when an invalidated reaction runs, for reactions that don't run synchronously
+ */
+export interface IEffectScheduler {
+    /**
+     * Called when the reaction is invalidated
+     */
+    schedule_(): void
+    /**
+     * Called when the reaction is disposed, should clear pending timers
+     */
+    cancel_(): void
+    isPending_(): boolean
+    /**
+     * Whether the scheduler should hear about changes that happen while it is pending
+     */
+    readonly tracksChanges_: boolean
+}
+
+/**
+ * Runs the effect once, after a timer, a frame or a custom scheduler calls back.
+ * Changes that happen in the meantime don't postpone it.
+ */
+class CallbackScheduler<Handle> implements IEffectScheduler {
+    private handle_: Handle | undefined
+    private pending_ = false
+    readonly tracksChanges_ = false
+
+    constructor(
+        private run_: Lambda,
+        private request_: (f: Lambda) => Handle,
+        private cancelRequest_?: (handle: Handle) => void
+    ) {}
+
+    schedule_() {
+        if (!this.pending_) {
+            this.pending_ = true
+            this.handle_ = this.request_(() => {
+                if (this.pending_) {
+                    this.pending_ = false
+                    this.run_()
+                }
+            })
+        }
+    }
+
+    cancel_() {
+        if (this.pending_) {
+            this.pending_ = false
+            this.cancelRequest_?.(this.handle_!)
+        }
+    }
+
+    isPending_() {
+        return this.pending_
+    }
+}
+
+/**
+ * Every run opens a window of `wait` milliseconds, which is extended by every change.
+ * Changes within the window are postponed until the window closes, or until `maxWait` is reached.
+ */
+class DebounceScheduler implements IEffectScheduler {
+    private waitTimer_: any
+    private maxWaitTimer_: any
+    private isWindowOpen_ = false
+    private pending_ = false
+    // every change extends the window
+    readonly tracksChanges_ = true
+
+    constructor(
+        private run_: Lambda,
+        // tracks the dependencies again without running the effect, for dropped runs
+        private skip_: Lambda | undefined,
+        private options_: IDebounceOptions
+    ) {}
+
+    schedule_() {
+        if (!this.isWindowOpen_ && this.options_.leading) {
+            this.runNow_()
+            return
+        }
+        this.pending_ = true
+        if (!this.isWindowOpen_) {
+            this.openWindow_()
+        } else {
+            cancelTimeout(this.waitTimer_)
+            this.waitTimer_ = scheduleTimeout(() => this.closeWindow_(), this.options_.wait)
+        }
+    }
+
+    private openWindow_() {
+        this.isWindowOpen_ = true
+        this.waitTimer_ = scheduleTimeout(() => this.closeWindow_(), this.options_.wait)
+        const { maxWait } = this.options_
+        if (maxWait !== undefined) {
+            this.maxWaitTimer_ = scheduleTimeout(() => {
+                if (this.pending_) {
+                    this.runNow_()
+                }
+            }, maxWait)
+        }
+    }
+
+    private closeWindow_() {
+        this.clearTimers_()
+        if (this.pending_) {
+            this.pending_ = false
+            if (this.options_.trailing === false) {
+                this.skip_!()
+            } else {
+                this.runNow_()
+            }
+        }
+    }
+
+    private runNow_() {
+        this.clearTimers_()
+        this.pending_ = false
+        this.openWindow_()
+        this.run_()
+    }
+
+    private clearTimers_() {
+        this.isWindowOpen_ = false
+        cancelTimeout(this.waitTimer_)
+        cancelTimeout(this.maxWaitTimer_)
+    }
+
+    cancel_() {
+        this.clearTimers_()
+        this.pending_ = false
+    }
+
+    isPending_() {
+        return this.pending_
+    }
+}
+
+// remembers whether the frame was requested with `requestAnimationFrame` or simulated with a timeout
+type FrameHandle = { raf: true; id: number } | { raf: false; id: unknown }
+
+function requestFrame(f: Lambda): FrameHandle {
+    const global = getGlobal()
+    // the virtual scheduler controls all timers, so frames are simulated as well
+    return typeof global.requestAnimationFrame === "function" && !getVirtualScheduler()
+        ? { raf: true, id: global.requestAnimationFrame(f) }
+        : { raf: false, id: scheduleTimeout(f, 16) }
+}
+
+function cancelFrame(handle: FrameHandle) {
+    if (handle.raf) {
+        getGlobal().cancelAnimationFrame(handle.id)
+    } else {
+        cancelTimeout(handle.id)
+    }
+}
+
+/**
+ * Creates the scheduler for the `scheduler`, `delay`, `throttle`, `debounce` or `animationFrame` option,
+ * returns `undefined` if the reaction should run synchronously.
+ * `skip` tracks the dependencies without running the effect, and is required for `trailing: false`.
+ */
+export function createEffectScheduler(
+    opts: IAutorunOptions,
+    run: Lambda,
+    skip?: Lambda
+): IEffectScheduler | undefined {
+    if (opts.scheduler) {
+        return new CallbackScheduler(run, opts.scheduler)
+    }
+    if (opts.delay) {
+        return new CallbackScheduler(run, f => scheduleTimeout(f, opts.delay!), cancelTimeout)
+    }
+    if (opts.throttle) {
+        return new DebounceScheduler(run, skip, {
+            wait: opts.throttle,
+            maxWait: opts.throttle,
+            leading: true
+        })
+    }
+    if (opts.debounce) {
+        const options = typeof opts.debounce === "number" ? { wait: opts.debounce } : opts.debounce
+        if (options.trailing === false) {
+            if (!options.leading) {
+                die("'debounce' requires 'leading' or 'trailing' to be true")
+            }
+            if (!skip) {
+                die(
+                    "autorun doesn't support 'trailing: false', as it needs to run to track its dependencies"
+                )
+            }
+        }
+        return new DebounceScheduler(run, skip, options)
+    }
+    if (opts.animationFrame) {
+        return new CallbackScheduler(run, requestFrame, cancelFrame)
+    }
+    return undefined
+}
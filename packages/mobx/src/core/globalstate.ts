@@ -1,4 +1,14 @@
-import { IDerivation, IObservable, Reaction, die, getGlobal } from "../internal"
+import {
+    IDerivation,
+    IInstrumentationOptions,
+    Profiler,
+    IObservable,
+    IReactionCycle,
+    Reaction,
+    VirtualScheduler,
+    die,
+    getGlobal
+} from "../internal"
 import { ComputedValue } from "./computedvalue"
 
 /**
@@ -13,6 +23,12 @@ const persistentKeys: (keyof MobXGlobals)[] = [
     "observableRequiresReaction",
     "allowStateReads",
     "disableErrorBoundaries",
+    "maxReactionIterations",
+    "onReactionCycle",
+    "reactionScheduler",
+    "idleReactionScheduler",
+    "virtualScheduler",
+    "instrumentation",
     "runId",
     "UNCHANGED",
     "useProxies"
@@ -76,6 +92,16 @@ export class MobXGlobals {
      */
     pendingReactions: Reaction[] = []
 
+    /**
+     * List of scheduled reactions with priority "idle", that run once the idle scheduler calls back
+     */
+    pendingIdleReactions: Reaction[] = []
+
+    /**
+     * Whether a reaction with priority "sync" or "high" might be pending, avoids scanning the pending reactions
+     */
+    isPriorityReactionPending = false
+
     /**
      * Are we currently processing reactions?
      */
@@ -104,10 +130,29 @@ export class MobXGlobals {
      */
     spyListeners: { (change: any): void }[] = []
 
+    /**
+     * Keeps spy events available in production builds, see `configure({ instrumentation })`
+     */
+    instrumentation: IInstrumentationOptions | undefined = undefined
+
+    /**
+     * For every spy event that started and didn't end yet: whether it was sampled and reported
+     */
+    startedInstrumentationEvents: number[] = []
+
+    /**
+     * The profiler started by `startProfiling()`
+     */
+    profiler: Profiler | undefined = undefined
+
     /**
      * Globally attached error handlers that react specifically to errors in reactions
      */
-    globalReactionErrorHandlers: ((error: any, derivation: IDerivation) => void)[] = []
+    globalReactionErrorHandlers: ((
+        error: any,
+        derivation: IDerivation,
+        path: IDerivation[]
+    ) => void)[] = []
 
     /**
      * Warn if computed values are accessed outside a reactive context
@@ -132,6 +177,40 @@ export class MobXGlobals {
      */
     disableErrorBoundaries = false
 
+    /**
+     * Magic number alert!
+     * Defines within how many times reactions are allowed to re-trigger each other
+     * until it is assumed that this is gonna be a never ending loop...
+     */
+    maxReactionIterations = 100
+
+    /**
+     * What to do when reactions don't converge: log the cycle, throw, or pass the cycle to a custom handler
+     */
+    onReactionCycle: "log" | "throw" | ((cycle: IReactionCycle) => void) = "log"
+
+    /**
+     * Runs the pending reactions at the end of a batch, see `configure({ reactionScheduler })`
+     */
+    reactionScheduler: (fn: () => void) => void = f => f()
+
+    /**
+     * Runs the pending reactions with the "idle" priority, see `configure({ idleReactionScheduler })`
+     */
+    idleReactionScheduler: (fn: () => void) => void = f => {
+        const global = getGlobal()
+        if (typeof global.requestIdleCallback === "function") {
+            global.requestIdleCallback(f)
+        } else {
+            setTimeout(f, 1)
+        }
+    }
+
+    /**
+     * The virtual scheduler that controls the reactions and timers, see `createVirtualScheduler()`
+     */
+    virtualScheduler: VirtualScheduler | undefined = undefined
+
     /*
      * If true, we are already handling an exception in an action. Any errors in reactions should be suppressed, as
      * they are not the cause, see: https://github.com/mobxjs/mobx/issues/1836
@@ -154,6 +233,8 @@ export class MobXGlobals {
 
 let canMergeGlobalState = true
 let isolateCalled = false
+// how many runtimes are entered, see `runWithGlobalState`
+let runtimeDepth = 0
 
 export let globalState: MobXGlobals = (function () {
     let global = getGlobal()
@@ -186,6 +267,9 @@ export let globalState: MobXGlobals = (function () {
 })()
 
 export function isolateGlobalState() {
+    if (runtimeDepth) {
+        die("isolateGlobalState cannot be used inside 'runtime.run()'")
+    }
     if (
         globalState.pendingReactions.length ||
         globalState.inBatch ||
@@ -203,6 +287,24 @@ export function isolateGlobalState() {
     }
 }
 
+/**
+ * Makes `state` the global state while `fn` runs, used by runtimes
+ */
+export function runWithGlobalState<T>(state: MobXGlobals, fn: () => T): T {
+    if (state === globalState) {
+        return fn()
+    }
+    const prevState = globalState
+    globalState = state
+    runtimeDepth++
+    try {
+        return fn()
+    } finally {
+        runtimeDepth--
+        globalState = prevState
+    }
+}
+
 export function getGlobalState(): any {
     return globalState
 }
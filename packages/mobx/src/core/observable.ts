@@ -109,26 +109,30 @@ export function startBatch() {
 
 export function endBatch() {
     if (--globalState.inBatch === 0) {
-        runReactions()
-        // the batch is actually about to finish, all unobserving should happen here.
-        const list = globalState.pendingUnobservations
-        for (let i = 0; i < list.length; i++) {
-            const observable = list[i]
-            observable.isPendingUnobservation_ = false
-            if (observable.observers_.size === 0) {
-                if (observable.isBeingObserved_) {
-                    // if this observable had reactive observers, trigger the hooks
-                    observable.isBeingObserved_ = false
-                    observable.onBUO()
-                }
-                if (observable instanceof ComputedValue) {
-                    // computed values are automatically teared down when the last observer leaves
-                    // this process happens recursively, this computed might be the last observabe of another, etc..
-                    observable.suspend_()
+        try {
+            // throws if the reactions don't converge and `onReactionCycle` throws
+            runReactions()
+        } finally {
+            // the batch is actually about to finish, all unobserving should happen here.
+            const list = globalState.pendingUnobservations
+            for (let i = 0; i < list.length; i++) {
+                const observable = list[i]
+                observable.isPendingUnobservation_ = false
+                if (observable.observers_.size === 0) {
+                    if (observable.isBeingObserved_) {
+                        // if this observable had reactive observers, trigger the hooks
+                        observable.isBeingObserved_ = false
+                        observable.onBUO()
+                    }
+                    if (observable instanceof ComputedValue) {
+                        // computed values are automatically teared down when the last observer leaves
+                        // this process happens recursively, this computed might be the last observabe of another, etc..
+                        observable.suspend_()
+                    }
                 }
             }
+            globalState.pendingUnobservations = []
         }
-        globalState.pendingUnobservations = []
     }
 }
 
@@ -18,7 +18,20 @@ import {
     spyReportStart,
     startBatch,
     trace,
-    trackDerivedFunction
+    trackDerivedFunction,
+    DerivationErrorRecovery,
+    getExceptionPath,
+    scheduleRetry,
+    die,
+    MobXGlobals,
+    runWithGlobalState,
+    executeAction,
+    ComputedValue,
+    EMPTY_ARRAY,
+    IEffectScheduler,
+    changeDependenciesStateTo0,
+    registerLiveReaction,
+    unregisterLiveReaction
 } from "../internal"
 
 /**
@@ -40,9 +53,33 @@ import {
  *
  */
 
+/**
+ * Determines the order in which pending reactions run:
+ * - `sync`: runs first, and isn't deferred by a custom reaction scheduler
+ * - `high`: runs before normal reactions
+ * - `normal`: the default
+ * - `idle`: runs once the idle scheduler calls back, after all other reactions
+ */
+export type ReactionPriority = "sync" | "high" | "normal" | "idle"
+
+const reactionPriorities: Record<ReactionPriority, number> = {
+    sync: 0,
+    high: 1,
+    normal: 2,
+    idle: 3
+}
+
 export interface IReactionPublic {
     dispose(): void
     trace(enterBreakPoint?: boolean): void
+    /**
+     * Registers a function that runs right before the next run of the effect, or when the reaction is disposed
+     */
+    onCleanup(cleanup: Lambda): void
+    /**
+     * Whether the reaction is about to run, or waiting for its `delay`, `throttle`, `debounce` etc.
+     */
+    isScheduled(): boolean
 }
 
 export interface IReactionDisposer {
@@ -62,13 +99,30 @@ export class Reaction implements IDerivation, IReactionPublic {
     isTrackPending_ = false
     isRunning_ = false
     isTracing_: TraceMode = TraceMode.NONE
+    // the runtime this reaction was created in, it is always scheduled and run there
+    globalState_: MobXGlobals = globalState
+    private cleanups_: Lambda[] | undefined
+    // the changes reported by the observed atoms since the last run of the effect, see `collectChanges`
+    changes_: any[] | undefined
+    // decides when the reaction runs after it was invalidated, see `createEffectScheduler`
+    effectScheduler_: IEffectScheduler | undefined
+    // see `getReactiveGraph`
+    private liveReactionRef_: ReturnType<typeof registerLiveReaction>
 
     constructor(
         public name_: string = __DEV__ ? "Reaction@" + getNextId() : "Reaction",
         private onInvalidate_: () => void,
-        private errorHandler_?: (error: any, derivation: IDerivation) => void,
-        public requiresObservable_?
-    ) {}
+        private errorHandler_?: (
+            error: any,
+            derivation: IDerivation
+        ) => DerivationErrorRecovery | void,
+        public requiresObservable_?,
+        public priority_: ReactionPriority = "normal"
+    ) {
+        if (__DEV__) {
+            this.liveReactionRef_ = registerLiveReaction(this)
+        }
+    }
 
     onBecomeStale_() {
         this.schedule_()
@@ -77,13 +131,24 @@ export class Reaction implements IDerivation, IReactionPublic {
     schedule_() {
         if (!this.isScheduled_) {
             this.isScheduled_ = true
-            globalState.pendingReactions.push(this)
-            runReactions()
+            const state = this.globalState_
+            if (this.priority_ === "sync" || this.priority_ === "high") {
+                state.isPriorityReactionPending = true
+            }
+            if (state === globalState) {
+                state.pendingReactions.push(this)
+                runReactions()
+            } else if (state.pendingReactions.push(this) === 1) {
+                // Triggered by a change in another runtime, which is still propagating that change.
+                // A runtime only runs its own reactions, so this one flushes them once the change is done.
+                // If it is in a batch right now, the end of that batch flushes them first.
+                Promise.resolve().then(() => runWithGlobalState(state, runReactions))
+            }
         }
     }
 
     isScheduled() {
-        return this.isScheduled_
+        return this.isScheduled_ || !!this.effectScheduler_?.isPending_()
     }
 
     /**
@@ -100,7 +165,11 @@ export class Reaction implements IDerivation, IReactionPublic {
 
                 try {
                     this.onInvalidate_()
-                    if (__DEV__ && this.isTrackPending_ && isSpyEnabled()) {
+                    if (this.isTrackPending_ && this.effectScheduler_?.tracksChanges_) {
+                        // keep listening, so that changes that happen while the run is pending are reported as well
+                        changeDependenciesStateTo0(this)
+                    }
+                    if (this.isTrackPending_ && isSpyEnabled()) {
                         // onInvalidate didn't trigger track right away..
                         spyReport({
                             name: this.name_,
@@ -121,10 +190,15 @@ export class Reaction implements IDerivation, IReactionPublic {
             return
             // console.warn("Reaction already disposed") // Note: Not a warning / error in mobx 4 either
         }
+        if (this.globalState_ !== globalState) {
+            // e.g. a debounced run, that is started by a timer
+            runWithGlobalState(this.globalState_, () => this.track(fn))
+            return
+        }
         startBatch()
         const notify = isSpyEnabled()
         let startTime
-        if (__DEV__ && notify) {
+        if (notify) {
             startTime = Date.now()
             spyReportStart({
                 name: this.name_,
@@ -145,7 +219,7 @@ export class Reaction implements IDerivation, IReactionPublic {
         if (isCaughtException(result)) {
             this.reportExceptionInDerivation_(result.cause)
         }
-        if (__DEV__ && notify) {
+        if (notify) {
             spyReportEnd({
                 time: Date.now() - startTime
             })
@@ -153,10 +227,20 @@ export class Reaction implements IDerivation, IReactionPublic {
         endBatch()
     }
 
-    reportExceptionInDerivation_(error: any) {
+    /**
+     * Returns the recovery that was chosen by the `onError` handler, if any
+     */
+    reportExceptionInDerivation_(error: any): DerivationErrorRecovery | void {
         if (this.errorHandler_) {
-            this.errorHandler_(error, this)
-            return
+            const recovery = this.errorHandler_(error, this)
+            if (recovery === "dispose") {
+                this.dispose()
+            } else {
+                scheduleRetry(recovery, () => this.retry_())
+            }
+            if (recovery !== "rethrow") {
+                return recovery
+            }
         }
 
         if (globalState.disableErrorBoundaries) {
@@ -171,7 +255,7 @@ export class Reaction implements IDerivation, IReactionPublic {
             /** If debugging brought you here, please, read the above message :-). Tnx! */
         } else if (__DEV__) { console.warn(`[mobx] (error in reaction '${this.name_}' suppressed, fix error of causing action below)`) } // prettier-ignore
 
-        if (__DEV__ && isSpyEnabled()) {
+        if (isSpyEnabled()) {
             spyReport({
                 type: "error",
                 name: this.name_,
@@ -180,7 +264,20 @@ export class Reaction implements IDerivation, IReactionPublic {
             })
         }
 
-        globalState.globalReactionErrorHandlers.forEach(f => f(error, this))
+        if (globalState.globalReactionErrorHandlers.length) {
+            const path = getExceptionPath(this, error)
+            globalState.globalReactionErrorHandlers.forEach(f => f(error, this, path))
+        }
+    }
+
+    /**
+     * Runs the reaction again, even if none of its dependencies changed
+     */
+    retry_() {
+        if (!this.isDisposed_) {
+            this.dependenciesState_ = IDerivationState_.STALE_
+            this.schedule_()
+        }
     }
 
     dispose() {
@@ -192,6 +289,64 @@ export class Reaction implements IDerivation, IReactionPublic {
                 clearObserving(this)
                 endBatch()
             }
+            this.effectScheduler_?.cancel_()
+            if (__DEV__) {
+                unregisterLiveReaction(this.liveReactionRef_)
+            }
+            this.runCleanups_()
+            if (this.changes_) {
+                this.changes_ = undefined
+                changeCollectorCount--
+            }
+        }
+    }
+
+    collectChanges_() {
+        if (!this.changes_ && !this.isDisposed_) {
+            this.changes_ = []
+            changeCollectorCount++
+        }
+    }
+
+    takeChanges_(): any[] {
+        const changes = this.changes_
+        if (!changes) {
+            return EMPTY_ARRAY
+        }
+        this.changes_ = []
+        return changes
+    }
+
+    onCleanup(cleanup: Lambda) {
+        ;(this.cleanups_ ||= []).push(cleanup)
+        if (this.isDisposed_) {
+            // registered after the reaction was disposed, for example by the run that disposed it
+            this.runCleanups_()
+        }
+    }
+
+    /**
+     * Runs the cleanups registered by the previous run of the effect, as an action.
+     * A failing cleanup is reported as an error of this reaction, and doesn't prevent the next run.
+     */
+    runCleanups_() {
+        const cleanups = this.cleanups_
+        if (cleanups) {
+            this.cleanups_ = undefined
+            executeAction(
+                __DEV__ ? this.name_ + "-cleanup" : "Reaction-cleanup",
+                false,
+                () =>
+                    cleanups.forEach(cleanup => {
+                        try {
+                            cleanup()
+                        } catch (e) {
+                            this.reportExceptionInDerivation_(e)
+                        }
+                    }),
+                undefined,
+                undefined
+            )
         }
     }
 
@@ -210,7 +365,14 @@ export class Reaction implements IDerivation, IReactionPublic {
     }
 }
 
-export function onReactionError(handler: (error: any, derivation: IDerivation) => void): Lambda {
+/**
+ * Registers a handler for errors thrown by reactions that are not handled by their own `onError` option.
+ * Besides the reaction, the handler receives the path of derivations through which the error propagated,
+ * starting with the reaction and ending with the derivation that threw the error.
+ */
+export function onReactionError(
+    handler: (error: any, derivation: IDerivation, path: IDerivation[]) => void
+): Lambda {
     globalState.globalReactionErrorHandlers.push(handler)
     return () => {
         const idx = globalState.globalReactionErrorHandlers.indexOf(handler)
@@ -220,52 +382,241 @@ export function onReactionError(handler: (error: any, derivation: IDerivation) =
     }
 }
 
+// the amount of reactions with `collectChanges`, avoids looking for them when there are none
+let changeCollectorCount = 0
+
+/**
+ * Returns the reactions with `collectChanges` that observe one of the given atoms,
+ * directly or through computed values
+ */
+export function getChangeCollectors(
+    atom: IObservable,
+    atom2?: IObservable,
+    atom3?: IObservable
+): Reaction[] | undefined {
+    if (!changeCollectorCount) {
+        return undefined
+    }
+    let collectors: Reaction[] | undefined
+    const visited = new Set<IDerivation>()
+    const visit = (observable: IObservable) =>
+        observable.observers_.forEach(derivation => {
+            if (visited.has(derivation)) {
+                return
+            }
+            visited.add(derivation)
+            if (derivation instanceof Reaction) {
+                if (derivation.changes_) {
+                    ;(collectors ||= []).push(derivation)
+                }
+            } else {
+                visit(derivation as ComputedValue<any>)
+            }
+        })
+    // no rest parameter, this is called for every change
+    visit(atom)
+    if (atom2) {
+        visit(atom2)
+    }
+    if (atom3) {
+        visit(atom3)
+    }
+    return collectors
+}
+
 /**
- * Magic number alert!
- * Defines within how many times a reaction is allowed to re-trigger itself
- * until it is assumed that this is gonna be a never ending loop...
+ * Hands a change to the reactions returned by `getChangeCollectors`.
+ * Should be called before the change is propagated, as the reactions might run right away.
  */
-const MAX_REACTION_ITERATIONS = 100
+export function collectChange(collectors: Reaction[] | undefined, change: any) {
+    collectors?.forEach(reaction => reaction.changes_!.push(change))
+}
 
-let reactionScheduler: (fn: () => void) => void = f => f()
+export interface IReactionCycle {
+    /**
+     * The amount of iterations after which the reactions were assumed to never converge
+     */
+    iterations: number
+    /**
+     * The names of the reactions that were still pending
+     */
+    reactions: string[]
+    /**
+     * The names of the observables these reactions depend on, one of them is invalidated by the reactions themselves
+     */
+    observables: string[]
+}
 
 export function runReactions() {
     // Trampolining, if runReactions are already running, new reactions will be picked up
     if (globalState.inBatch > 0 || globalState.isRunningReactions) {
         return
     }
-    reactionScheduler(runReactionsHelper)
+    if (
+        globalState.isPriorityReactionPending &&
+        globalState.pendingReactions.some(reaction => reaction.priority_ === "sync")
+    ) {
+        runReactionsHelper(true)
+    }
+    // the reaction scheduler might call back later, when another runtime is the current one
+    const state = globalState
+    const run = () => runWithGlobalState(state, runReactionsHelper)
+    const { reactionScheduler, virtualScheduler } = globalState
+    if (!virtualScheduler) {
+        reactionScheduler(run)
+    } else if (globalState.pendingReactions.length) {
+        // only real work is scheduled, so `pendingCount` stays meaningful
+        virtualScheduler.scheduleReactions_(() => reactionScheduler(run))
+    }
 }
 
-function runReactionsHelper() {
+/**
+ * Runs the pending reactions right away, regardless of the reaction scheduler
+ */
+export function flushReactions() {
+    if (globalState.inBatch > 0 || globalState.isRunningReactions) {
+        die("'flushReactions()' can't be used inside a batch or reaction")
+    }
+    runReactionsHelper()
+}
+
+/**
+ * Removes the pending reactions with the highest priority from the list, and returns them.
+ * Idle reactions are handed to the idle scheduler instead.
+ */
+function takeNextReactions(pendingReactions: Reaction[], syncOnly: boolean): Reaction[] {
+    let highest = reactionPriorities.idle
+    for (let i = 0; i < pendingReactions.length; i++) {
+        highest = Math.min(highest, reactionPriorities[pendingReactions[i].priority_])
+    }
+    if (syncOnly && highest !== reactionPriorities.sync) {
+        return []
+    }
+    if (highest === reactionPriorities.normal && !pendingReactions.some(isIdleReaction)) {
+        // fast path, all reactions have the default priority
+        globalState.isPriorityReactionPending = false
+        return pendingReactions.splice(0)
+    }
+    const next: Reaction[] = []
+    let remaining = 0
+    globalState.isPriorityReactionPending = false
+    for (let i = 0; i < pendingReactions.length; i++) {
+        const reaction = pendingReactions[i]
+        const priority = reactionPriorities[reaction.priority_]
+        if (priority === reactionPriorities.idle) {
+            deferIdleReaction(reaction)
+        } else if (priority === highest) {
+            next.push(reaction)
+        } else {
+            globalState.isPriorityReactionPending ||= priority < reactionPriorities.normal
+            pendingReactions[remaining++] = reaction
+        }
+    }
+    pendingReactions.length = remaining
+    return next
+}
+
+function hasHigherPriorityReaction(pendingReactions: Reaction[], priority: ReactionPriority) {
+    if (!globalState.isPriorityReactionPending || !pendingReactions.length || priority === "sync") {
+        return false
+    }
+    const threshold = reactionPriorities[priority]
+    return pendingReactions.some(reaction => reactionPriorities[reaction.priority_] < threshold)
+}
+
+function isIdleReaction(reaction: Reaction) {
+    return reaction.priority_ === "idle"
+}
+
+function deferIdleReaction(reaction: Reaction) {
+    const state = globalState
+    if (state.pendingIdleReactions.push(reaction) === 1) {
+        state.idleReactionScheduler(() => runWithGlobalState(state, runIdleReactions))
+    }
+}
+
+function runIdleReactions() {
+    const idleReactions = globalState.pendingIdleReactions.splice(0)
+    startBatch()
+    for (let i = 0; i < idleReactions.length; i++) {
+        idleReactions[i].runReaction_()
+    }
+    endBatch()
+}
+
+function runReactionsHelper(syncOnly: boolean = false) {
     globalState.isRunningReactions = true
     const allReactions = globalState.pendingReactions
     let iterations = 0
+    let cycle: Reaction[] | undefined
 
     // While running reactions, new reactions might be triggered.
     // Hence we work with two variables and check whether
     // we converge to no remaining reactions after a while.
-    while (allReactions.length > 0) {
-        if (++iterations === MAX_REACTION_ITERATIONS) {
-            console.error(
-                __DEV__
-                    ? `Reaction doesn't converge to a stable state after ${MAX_REACTION_ITERATIONS} iterations.` +
-                          ` Probably there is a cycle in the reactive function: ${allReactions[0]}`
-                    : `[mobx] cycle in reaction: ${allReactions[0]}`
-            )
-            allReactions.splice(0) // clear reactions
-        }
-        let remainingReactions = allReactions.splice(0)
-        for (let i = 0, l = remainingReactions.length; i < l; i++) {
-            remainingReactions[i].runReaction_()
+    // Reactions are taken per priority, so a reaction with a higher priority
+    // that is triggered by another reaction still runs first.
+    try {
+        while (allReactions.length > 0) {
+            if (++iterations === globalState.maxReactionIterations) {
+                cycle = allReactions.splice(0)
+                break
+            }
+            let remainingReactions = takeNextReactions(allReactions, syncOnly)
+            if (!remainingReactions.length && syncOnly) {
+                break
+            }
+            for (let i = 0, l = remainingReactions.length; i < l; i++) {
+                const reaction = remainingReactions[i]
+                reaction.runReaction_()
+                if (i < l - 1 && hasHigherPriorityReaction(allReactions, reaction.priority_)) {
+                    // let the reactions that were just triggered go first
+                    allReactions.unshift(...remainingReactions.slice(i + 1))
+                    break
+                }
+            }
         }
+    } finally {
+        globalState.isRunningReactions = false
+    }
+    if (cycle) {
+        // reported once the reactions are no longer running, as the cycle handler might throw
+        reportReactionCycle(cycle, iterations)
     }
-    globalState.isRunningReactions = false
+}
+
+function reportReactionCycle(reactions: Reaction[], iterations: number) {
+    const observables = new Set<string>()
+    reactions.forEach(reaction =>
+        reaction.observing_.forEach(observable => observables.add(observable.name_))
+    )
+    const cycle: IReactionCycle = {
+        iterations,
+        reactions: reactions.map(reaction => reaction.name_),
+        observables: Array.from(observables)
+    }
+    const { onReactionCycle } = globalState
+    if (typeof onReactionCycle === "function") {
+        onReactionCycle(cycle)
+        return
+    }
+    const message = __DEV__
+        ? `Reaction doesn't converge to a stable state after ${iterations} iterations.` +
+          ` Probably there is a cycle in the reactive function: ${reactions[0]}.` +
+          ` Reactions: ${cycle.reactions.join(", ")}. Observables: ${cycle.observables.join(", ")}`
+        : `[mobx] cycle in reaction: ${reactions[0]}`
+    if (onReactionCycle === "throw") {
+        die(message)
+    }
+    console.error(message)
 }
 
 export const isReaction = createInstanceofPredicate("Reaction", Reaction)
 
+export function setIdleReactionScheduler(fn: (f: () => void) => void) {
+    globalState.idleReactionScheduler = fn
+}
+
 export function setReactionScheduler(fn: (f: () => void) => void) {
-    const baseScheduler = reactionScheduler
-    reactionScheduler = f => fn(() => baseScheduler(f))
+    const baseScheduler = globalState.reactionScheduler
+    globalState.reactionScheduler = f => fn(() => baseScheduler(f))
 }
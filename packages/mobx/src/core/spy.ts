@@ -2,10 +2,20 @@ import { IComputedDidChange } from "./computedvalue"
 import { IValueDidChange, IBoxDidChange } from "./../types/observablevalue"
 import { IObjectDidChange } from "./../types/observableobject"
 import { IArrayDidChange } from "./../types/observablearray"
-import { Lambda, globalState, once, ISetDidChange, IMapDidChange } from "../internal"
+import {
+    Lambda,
+    globalState,
+    once,
+    ISetDidChange,
+    IMapDidChange,
+    IWeakMapDidChange,
+    IWeakSetDidChange,
+    ISortedArrayDidChange,
+    ISortedMapDidChange
+} from "../internal"
 
 export function isSpyEnabled() {
-    return __DEV__ && !!globalState.spyListeners.length
+    return (__DEV__ || !!globalState.instrumentation) && !!globalState.spyListeners.length
 }
 
 export type PureSpyEvent =
@@ -18,49 +28,97 @@ export type PureSpyEvent =
     | IArrayDidChange<unknown>
     | IMapDidChange<unknown, unknown>
     | ISetDidChange<unknown>
+    | IWeakMapDidChange<any, any>
+    | IWeakSetDidChange<any>
+    | ISortedArrayDidChange<any>
+    | ISortedMapDidChange<any, any>
     | IValueDidChange<unknown>
     | IBoxDidChange<unknown>
     | { type: "report-end"; spyReportEnd: true; time?: number }
 
 type SpyEvent = PureSpyEvent & { spyReportStart?: true }
 
-export function spyReport(event: SpyEvent) {
-    if (!__DEV__) {
-        return
-    } // dead code elimination can do the rest
-    if (!globalState.spyListeners.length) {
-        return
+export interface IInstrumentationOptions {
+    /**
+     * The fraction of events that is reported, between 0 and 1. Defaults to 1.
+     * Events that happen within a reported action or reaction are always reported as well.
+     */
+    sampleRate?: number
+    /**
+     * Only report events of these types
+     */
+    types?: PureSpyEvent["type"][]
+}
+
+const SAMPLED = 1
+const REPORTED = 2
+
+/**
+ * Decides whether an event is sampled and passed to the listeners.
+ * Events that happen within a started event follow the decision that was made for that event
+ */
+function sampleEvent(event: PureSpyEvent) {
+    const { instrumentation } = globalState
+    if (!instrumentation) {
+        return SAMPLED | REPORTED
     }
+    const started = globalState.startedInstrumentationEvents
+    const sampled = started.length
+        ? (started[started.length - 1] & SAMPLED) !== 0
+        : instrumentation.sampleRate === undefined || Math.random() < instrumentation.sampleRate
+    const reported =
+        sampled && (!instrumentation.types || instrumentation.types.indexOf(event.type) !== -1)
+    return (sampled ? SAMPLED : 0) | (reported ? REPORTED : 0)
+}
+
+function notifySpyListeners(event: SpyEvent) {
     const listeners = globalState.spyListeners
     for (let i = 0, l = listeners.length; i < l; i++) {
         listeners[i](event)
     }
 }
 
+export function spyReport(event: SpyEvent) {
+    if (!__DEV__ && !globalState.instrumentation) {
+        return
+    } // dead code elimination can do the rest
+    if (sampleEvent(event) & REPORTED) {
+        notifySpyListeners(event)
+    }
+}
+
 export function spyReportStart(event: PureSpyEvent) {
-    if (!__DEV__) {
+    if (!__DEV__ && !globalState.instrumentation) {
         return
     }
-    const change = { ...event, spyReportStart: true as const }
-    spyReport(change)
+    // The decision is kept until the matching spyReportEnd, so the "report-end" event follows it,
+    // even if the listeners or the instrumentation options change in the meantime
+    const sample = sampleEvent(event)
+    globalState.startedInstrumentationEvents.push(sample)
+    if (sample & REPORTED) {
+        notifySpyListeners({ ...event, spyReportStart: true })
+    }
 }
 
 const END_EVENT: SpyEvent = { type: "report-end", spyReportEnd: true }
 
 export function spyReportEnd(change?: { time?: number }) {
-    if (!__DEV__) {
+    const sample = globalState.startedInstrumentationEvents.pop()
+    if (sample === undefined || !(sample & REPORTED)) {
         return
     }
     if (change) {
-        spyReport({ ...change, type: "report-end", spyReportEnd: true })
+        notifySpyListeners({ ...change, type: "report-end", spyReportEnd: true })
     } else {
-        spyReport(END_EVENT)
+        notifySpyListeners(END_EVENT)
     }
 }
 
 export function spy(listener: (change: SpyEvent) => void): Lambda {
-    if (!__DEV__) {
-        console.warn(`[mobx.spy] Is a no-op in production builds`)
+    if (!__DEV__ && !globalState.instrumentation) {
+        console.warn(
+            `[mobx.spy] Is a no-op in production builds, unless 'configure({ instrumentation: true })' is used`
+        )
         return function () {}
     } else {
         globalState.spyListeners.push(listener)
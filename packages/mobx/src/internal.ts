@@ -20,6 +20,7 @@ export * from "./types/observableannotation"
 export * from "./types/autoannotation"
 export * from "./api/observable"
 export * from "./api/computed"
+export * from "./api/computedasync"
 export * from "./core/action"
 export * from "./types/observablevalue"
 export * from "./core/computedvalue"
@@ -27,6 +28,7 @@ export * from "./core/derivation"
 export * from "./core/globalstate"
 export * from "./core/observable"
 export * from "./core/reaction"
+export * from "./core/effectscheduler"
 export * from "./core/spy"
 export * from "./api/action"
 export * from "./api/autorun"
@@ -41,8 +43,17 @@ export * from "./api/iscomputed"
 export * from "./api/isobservable"
 export * from "./api/object-api"
 export * from "./api/observe"
+export * from "./api/observedeep"
+export * from "./api/collectionviews"
+export * from "./api/applypatches"
 export * from "./api/tojs"
+export * from "./api/snapshot"
+export * from "./api/undomanager"
+export * from "./api/runtime"
+export * from "./api/virtualscheduler"
 export * from "./api/trace"
+export * from "./api/profiler"
+export * from "./api/reactivegraph"
 export * from "./api/transaction"
 export * from "./api/when"
 export * from "./types/dynamicobject"
@@ -52,6 +63,10 @@ export * from "./api/makeObservable"
 export * from "./types/observablearray"
 export * from "./types/observablemap"
 export * from "./types/observableset"
+export * from "./types/observableweakmap"
+export * from "./types/observableweakset"
+export * from "./types/observablesortedarray"
+export * from "./types/observablesortedmap"
 export * from "./types/observableobject"
 export * from "./types/legacyobservablearray"
 export * from "./types/type-utils"
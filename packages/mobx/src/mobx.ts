@@ -31,11 +31,18 @@ export {
     IDepTreeNode,
     Reaction,
     IReactionPublic,
+    ReactionPriority,
+    IReactionCycle,
     IReactionDisposer,
     untracked,
     IAtom,
     createAtom,
     spy,
+    IInstrumentationOptions,
+    startProfiling,
+    IProfiler,
+    IProfile,
+    IDerivationProfile,
     IComputedValue,
     IEqualsComparer,
     comparer,
@@ -53,6 +60,9 @@ export {
     IObservableArray,
     IArrayWillChange,
     IArrayWillSplice,
+    IArrayWillMove,
+    IArrayMove,
+    IArraySpliceOperation,
     IArraySplice,
     IArrayUpdate,
     IArrayDidChange,
@@ -70,23 +80,58 @@ export {
     ISetDidChange,
     ISetWillChange,
     IObservableSetInitialValues,
+    ObservableWeakMap,
+    isObservableWeakMap,
+    IWeakMapDidChange,
+    IWeakMapWillChange,
+    IObservableWeakMapInitialValues,
+    ObservableWeakSet,
+    isObservableWeakSet,
+    IWeakSetDidChange,
+    IWeakSetWillChange,
+    ObservableSortedArray,
+    isObservableSortedArray,
+    ISortedArrayDidChange,
+    ObservableSortedMap,
+    isObservableSortedMap,
+    ISortedMapDidChange,
+    IObservableSortedMapInitialValues,
+    ISortedCollectionChange,
+    ICompareFn,
     transaction,
     observable,
     IObservableFactory,
     CreateObservableOptions,
+    CreateObservableMapOptions,
     computed,
     IComputedFactory,
+    computedAsync,
+    IComputedAsync,
+    IComputedAsyncOptions,
+    ComputedAsyncState,
     isObservable,
     isObservableProp,
     isComputed,
     isComputedProp,
     extendObservable,
     observe,
+    observeDeep,
+    IJsonPatch,
+    applyPatches,
+    filterView,
+    mapView,
+    groupByView,
+    sortedView,
+    IArrayView,
+    IGroupByView,
+    ICollectionViewOptions,
     intercept,
     autorun,
     IAutorunOptions,
+    IDebounceOptions,
     reaction,
     IReactionOptions,
+    IReactionChange,
     when,
     IWhenOptions,
     action,
@@ -106,16 +151,40 @@ export {
     onBecomeObserved,
     onBecomeUnobserved,
     flow,
+    IFlowOptions,
+    IRestartableFlowOptions,
+    getFlowSignal,
+    getFlowStatus,
+    IFlowStatus,
     isFlow,
     flowResult,
     FlowCancellationError,
     isFlowCancellationError,
     toJS,
+    IToJSOptions,
+    IToJSConverter,
+    getSnapshot,
+    applySnapshot,
+    createUndoManager,
+    IUndoManager,
+    IUndoManagerOptions,
+    createMobxRuntime,
+    IMobxRuntime,
+    createVirtualScheduler,
+    IVirtualScheduler,
+    flushReactions,
     trace,
     IObserverTree,
     IDependencyTree,
     getDependencyTree,
     getObserverTree,
+    getReactiveGraph,
+    reactiveGraphToDot,
+    diffReactiveGraphs,
+    IReactiveGraph,
+    IReactiveGraphNode,
+    IReactiveGraphEdge,
+    IReactiveGraphDiff,
     resetGlobalState as _resetGlobalState,
     getGlobalState as _getGlobalState,
     getDebugName,
@@ -127,6 +196,7 @@ export {
     $mobx,
     isComputingDerivation as _isComputingDerivation,
     onReactionError,
+    DerivationErrorRecovery,
     interceptReads as _interceptReads,
     IComputedValueOptions,
     IActionRunInfo,
@@ -8,7 +8,9 @@ import {
     isFunction,
     globalState,
     MakeResult,
-    hasProp
+    hasProp,
+    createTrackedFlow,
+    createConcurrentFlow
 } from "../internal"
 
 export function createFlowAnnotation(name: string, options?: object): Annotation {
@@ -87,12 +89,27 @@ function createFlowDescriptor(
     // In case of flow.bound, the descriptor can be from already annotated prototype
     if (!isFlow(value)) {
         value = flow(value)
+        if (annotation.options_?.concurrency) {
+            value = createConcurrentFlow(
+                value,
+                key,
+                annotation.options_.concurrency,
+                annotation.options_.debounce
+            )
+        }
+        if (annotation.options_?.tracked) {
+            value = createTrackedFlow(value, key)
+        }
     }
     if (bound) {
+        const { isMobXTrackedFlow } = value
         // We do not keep original function around, so we bind the existing flow
         value = value.bind(adm.proxy_ ?? adm.target_)
         // This is normally set by `flow`, but `bind` returns new function...
         value.isMobXFlow = true
+        if (isMobXTrackedFlow) {
+            value.isMobXTrackedFlow = true
+        }
     }
     return {
         value,
@@ -28,10 +28,14 @@ import {
     reserveArrayBuffer,
     hasProp,
     die,
-    globalState
+    globalState,
+    getChangeCollectors,
+    collectChange,
+    transaction
 } from "../internal"
 
 const SPLICE = "splice"
+const MOVE = "move"
 export const UPDATE = "update"
 export const MAX_SPLICE_SIZE = 10000 // See e.g. https://github.com/mobxjs/mobx/issues/859
 
@@ -40,6 +44,20 @@ export interface IObservableArray<T = any> extends Array<T> {
     clear(): T[]
     replace(newItems: T[]): T[]
     remove(value: T): boolean
+    /**
+     * Moves the item at `fromIndex` to `toIndex`, which is reported as a single `move` change
+     */
+    move(fromIndex: number, toIndex: number): void
+    /**
+     * Swaps the items at the two indices, which is reported as one or two `move` changes.
+     * Interceptors see both moves before either is applied, if one of them is cancelled, nothing is swapped.
+     */
+    swap(index1: number, index2: number): void
+    /**
+     * Applies the splices in order, which is reported as a single `splice` change
+     * that covers the range that changed. Returns the items that were removed from that range.
+     */
+    applySplices(splices: ReadonlyArray<IArraySpliceOperation<T>>): T[]
     toJSON(): T[]
 }
 
@@ -50,7 +68,7 @@ interface IArrayBaseChange<T> {
     index: number
 }
 
-export type IArrayDidChange<T = any> = IArrayUpdate<T> | IArraySplice<T>
+export type IArrayDidChange<T = any> = IArrayUpdate<T> | IArraySplice<T> | IArrayMove<T>
 
 export interface IArrayUpdate<T = any> extends IArrayBaseChange<T> {
     type: "update"
@@ -66,6 +84,22 @@ export interface IArraySplice<T = any> extends IArrayBaseChange<T> {
     removedCount: number
 }
 
+/**
+ * `index` is the first index of the items that changed position, which is the lower of `fromIndex` and `toIndex`
+ */
+export interface IArrayMove<T = any> extends IArrayBaseChange<T> {
+    type: "move"
+    fromIndex: number
+    toIndex: number
+    value: T
+}
+
+export interface IArraySpliceOperation<T = any> {
+    index: number
+    removedCount?: number
+    added?: T[]
+}
+
 export interface IArrayWillChange<T = any> {
     object: IObservableArray<T>
     index: number
@@ -81,6 +115,13 @@ export interface IArrayWillSplice<T = any> {
     removedCount: number
 }
 
+export interface IArrayWillMove<T = any> {
+    object: IObservableArray<T>
+    type: "move"
+    fromIndex: number
+    toIndex: number
+}
+
 const arrayTraps = {
     get(target, name) {
         const adm: ObservableArrayAdministration = target[$mobx]
@@ -117,7 +158,9 @@ const arrayTraps = {
 }
 
 export class ObservableArrayAdministration
-    implements IInterceptable<IArrayWillChange<any> | IArrayWillSplice<any>>, IListenable
+    implements
+        IInterceptable<IArrayWillChange<any> | IArrayWillSplice<any> | IArrayWillMove<any>>,
+        IListenable
 {
     atom_: IAtom
     readonly values_: any[] = [] // this is the prop that gets proxied, so can't replace it!
@@ -153,8 +196,12 @@ export class ObservableArrayAdministration
         return values
     }
 
-    intercept_(handler: IInterceptor<IArrayWillChange<any> | IArrayWillSplice<any>>): Lambda {
-        return registerInterceptor<IArrayWillChange<any> | IArrayWillSplice<any>>(this, handler)
+    intercept_(
+        handler: IInterceptor<IArrayWillChange<any> | IArrayWillSplice<any> | IArrayWillMove<any>>
+    ): Lambda {
+        return registerInterceptor<
+            IArrayWillChange<any> | IArrayWillSplice<any> | IArrayWillMove<any>
+        >(this, handler)
     }
 
     observe_(
@@ -263,6 +310,53 @@ export class ObservableArrayAdministration
         return this.dehanceValues_(res)
     }
 
+    moveItem_(fromIndex: number, toIndex: number) {
+        const move = this.interceptMove_(fromIndex, toIndex)
+        if (move) {
+            this.applyMove_(move[0], move[1])
+        }
+    }
+
+    // returns the indices of the move after the interceptors changed them, or null if the move is cancelled
+    interceptMove_(fromIndex: number, toIndex: number): [number, number] | null {
+        checkIfStateModificationsAreAllowed(this.atom_)
+        this.checkMoveIndices_(fromIndex, toIndex)
+        if (hasInterceptors(this)) {
+            const change = interceptChange<IArrayWillMove<any>>(this as any, {
+                object: this.proxy_ as any,
+                type: MOVE,
+                fromIndex,
+                toIndex
+            })
+            if (!change) {
+                return null
+            }
+            this.checkMoveIndices_(change.fromIndex, change.toIndex)
+            return [change.fromIndex, change.toIndex]
+        }
+        return [fromIndex, toIndex]
+    }
+
+    applyMove_(fromIndex: number, toIndex: number) {
+        if (fromIndex === toIndex) {
+            return
+        }
+        const value = this.values_.splice(fromIndex, 1)[0]
+        this.values_.splice(toIndex, 0, value)
+        this.notifyArrayMove_(fromIndex, toIndex, value)
+    }
+
+    private checkMoveIndices_(fromIndex: number, toIndex: number) {
+        const length = this.values_.length
+        ;[fromIndex, toIndex].forEach(index => {
+            if (!Number.isInteger(index) || index < 0 || index >= length) {
+                die(
+                    `Cannot move from index ${fromIndex} to index ${toIndex}, out of range: ${index}`
+                )
+            }
+        })
+    }
+
     spliceItemsIntoValues_(index: number, deleteCount: number, newItems: any[]): any[] {
         if (newItems.length < MAX_SPLICE_SIZE) {
             return this.values_.splice(index, deleteCount, ...newItems)
@@ -286,8 +380,9 @@ export class ObservableArrayAdministration
     notifyArrayChildUpdate_(index: number, newValue: any, oldValue: any) {
         const notifySpy = !this.owned_ && isSpyEnabled()
         const notify = hasListeners(this)
+        const collectors = getChangeCollectors(this.atom_)
         const change: IArrayDidChange | null =
-            notify || notifySpy
+            notify || notifySpy || collectors
                 ? ({
                       observableKind: "array",
                       object: this.proxy_,
@@ -299,16 +394,15 @@ export class ObservableArrayAdministration
                   } as const)
                 : null
 
-        // The reason why this is on right hand side here (and not above), is this way the uglifier will drop it, but it won't
-        // cause any runtime overhead in development mode without NODE_ENV set, unless spying is enabled
-        if (__DEV__ && notifySpy) {
+        if (notifySpy) {
             spyReportStart(change!)
         }
+        collectChange(collectors, change)
         this.atom_.reportChanged()
         if (notify) {
             notifyListeners(this, change)
         }
-        if (__DEV__ && notifySpy) {
+        if (notifySpy) {
             spyReportEnd()
         }
     }
@@ -316,8 +410,9 @@ export class ObservableArrayAdministration
     notifyArraySplice_(index: number, added: any[], removed: any[]) {
         const notifySpy = !this.owned_ && isSpyEnabled()
         const notify = hasListeners(this)
+        const collectors = getChangeCollectors(this.atom_)
         const change: IArraySplice | null =
-            notify || notifySpy
+            notify || notifySpy || collectors
                 ? ({
                       observableKind: "array",
                       object: this.proxy_,
@@ -331,15 +426,47 @@ export class ObservableArrayAdministration
                   } as const)
                 : null
 
-        if (__DEV__ && notifySpy) {
+        if (notifySpy) {
             spyReportStart(change!)
         }
+        collectChange(collectors, change)
         this.atom_.reportChanged()
         // conform: https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Array/observe
         if (notify) {
             notifyListeners(this, change)
         }
-        if (__DEV__ && notifySpy) {
+        if (notifySpy) {
+            spyReportEnd()
+        }
+    }
+
+    notifyArrayMove_(fromIndex: number, toIndex: number, value: any) {
+        const notifySpy = !this.owned_ && isSpyEnabled()
+        const notify = hasListeners(this)
+        const collectors = getChangeCollectors(this.atom_)
+        const change: IArrayMove | null =
+            notify || notifySpy || collectors
+                ? ({
+                      observableKind: "array",
+                      object: this.proxy_,
+                      debugObjectName: this.atom_.name_,
+                      type: MOVE,
+                      index: Math.min(fromIndex, toIndex),
+                      fromIndex,
+                      toIndex,
+                      value
+                  } as const)
+                : null
+
+        if (notifySpy) {
+            spyReportStart(change!)
+        }
+        collectChange(collectors, change)
+        this.atom_.reportChanged()
+        if (notify) {
+            notifyListeners(this, change)
+        }
+        if (notifySpy) {
             spyReportEnd()
         }
     }
@@ -511,6 +638,57 @@ export var arrayExtensions = {
             return true
         }
         return false
+    },
+
+    move(fromIndex: number, toIndex: number): void {
+        ;(this[$mobx] as ObservableArrayAdministration).moveItem_(fromIndex, toIndex)
+    },
+
+    swap(index1: number, index2: number): void {
+        const adm: ObservableArrayAdministration = this[$mobx]
+        const low = Math.min(index1, index2)
+        const high = Math.max(index1, index2)
+        // after the first move, the item at high moved one position down
+        const moves =
+            high - low > 1
+                ? [adm.interceptMove_(low, high), adm.interceptMove_(high - 1, low)]
+                : [adm.interceptMove_(low, high)]
+        // both moves are intercepted before either is applied, so the swap is applied completely or not at all
+        if (moves.every(move => move !== null)) {
+            transaction(() => moves.forEach(move => adm.applyMove_(move![0], move![1])))
+        }
+    },
+
+    applySplices(splices: ReadonlyArray<IArraySpliceOperation>): any[] {
+        const adm: ObservableArrayAdministration = this[$mobx]
+        const oldValues = adm.dehanceValues_(adm.values_)
+        const newValues = oldValues.slice()
+        splices.forEach(({ index, removedCount = 0, added = EMPTY_ARRAY }) => {
+            newValues.splice(index, removedCount, ...added)
+        })
+        // only the range between the unchanged start and end is spliced
+        let start = 0
+        while (
+            start < oldValues.length &&
+            start < newValues.length &&
+            oldValues[start] === newValues[start]
+        ) {
+            start++
+        }
+        let oldEnd = oldValues.length
+        let newEnd = newValues.length
+        while (
+            oldEnd > start &&
+            newEnd > start &&
+            oldValues[oldEnd - 1] === newValues[newEnd - 1]
+        ) {
+            oldEnd--
+            newEnd--
+        }
+        if (oldEnd === start && newEnd === start) {
+            return []
+        }
+        return adm.spliceWithArray_(start, oldEnd - start, newValues.slice(start, newEnd))
     }
 }
 
@@ -35,7 +35,9 @@ import {
     UPDATE,
     IAtom,
     PureSpyEvent,
-    allowStateChanges
+    allowStateChanges,
+    getChangeCollectors,
+    collectChange
 } from "../internal"
 
 export interface IKeyValueMap<V = any> {
@@ -90,7 +92,8 @@ export type IObservableMapInitialValues<K = any, V = any> =
 // just extend Map? See also https://gist.github.com/nestharus/13b4d74f2ef4a2f4357dbd3fc23c1e54
 // But: https://github.com/mobxjs/mobx/issues/1556
 export class ObservableMap<K = any, V = any>
-    implements Map<K, V>, IInterceptable<IMapWillChange<K, V>>, IListenable {
+    implements Map<K, V>, IInterceptable<IMapWillChange<K, V>>, IListenable
+{
     [$mobx] = ObservableMapMarker
     data_: Map<K, ObservableValue<V>>
     hasMap_: Map<K, ObservableValue<boolean>> // hasMap, not hashMap >-).
@@ -102,19 +105,29 @@ export class ObservableMap<K = any, V = any>
     constructor(
         initialData?: IObservableMapInitialValues<K, V>,
         public enhancer_: IEnhancer<V> = deepEnhancer,
-        public name_ = __DEV__ ? "ObservableMap@" + getNextId() : "ObservableMap"
+        public name_ = __DEV__ ? "ObservableMap@" + getNextId() : "ObservableMap",
+        // keys with the same hash are considered the same key
+        private keyHash_?: (key: K) => unknown
     ) {
         if (!isFunction(Map)) {
             die(18)
         }
         this.keysAtom_ = createAtom(__DEV__ ? `${this.name_}.keys()` : "ObservableMap.keys()")
-        this.data_ = new Map()
-        this.hasMap_ = new Map()
+        this.data_ = this.createMap_()
+        this.hasMap_ = this.createMap_()
         allowStateChanges(true, () => {
             this.merge(initialData)
         })
     }
 
+    private createMap_<T>(): Map<K, T> {
+        return this.keyHash_ ? new HashedMap(this.keyHash_) : new Map()
+    }
+
+    private isSameKey_(a: K, b: K): boolean {
+        return this.keyHash_ ? this.keyHash_(a) === this.keyHash_(b) : a === b
+    }
+
     private has_(key: K): boolean {
         return this.data_.has(key)
     }
@@ -176,8 +189,13 @@ export class ObservableMap<K = any, V = any>
         if (this.has_(key)) {
             const notifySpy = isSpyEnabled()
             const notify = hasListeners(this)
+            const collectors = getChangeCollectors(
+                this.keysAtom_,
+                this.hasMap_.get(key),
+                this.data_.get(key)
+            )
             const change: IMapDidChange<K, V> | null =
-                notify || notifySpy
+                notify || notifySpy || collectors
                     ? {
                           observableKind: "map",
                           debugObjectName: this.name_,
@@ -188,9 +206,10 @@ export class ObservableMap<K = any, V = any>
                       }
                     : null
 
-            if (__DEV__ && notifySpy) {
+            if (notifySpy) {
                 spyReportStart(change! as PureSpyEvent)
             } // TODO fix type
+            collectChange(collectors, change)
             transaction(() => {
                 this.keysAtom_.reportChanged()
                 this.hasMap_.get(key)?.setNewValue_(false)
@@ -201,7 +220,7 @@ export class ObservableMap<K = any, V = any>
             if (notify) {
                 notifyListeners(this, change)
             }
-            if (__DEV__ && notifySpy) {
+            if (notifySpy) {
                 spyReportEnd()
             }
             return true
@@ -215,8 +234,9 @@ export class ObservableMap<K = any, V = any>
         if (newValue !== globalState.UNCHANGED) {
             const notifySpy = isSpyEnabled()
             const notify = hasListeners(this)
+            const collectors = getChangeCollectors(observable)
             const change: IMapDidChange<K, V> | null =
-                notify || notifySpy
+                notify || notifySpy || collectors
                     ? {
                           observableKind: "map",
                           debugObjectName: this.name_,
@@ -227,14 +247,15 @@ export class ObservableMap<K = any, V = any>
                           newValue
                       }
                     : null
-            if (__DEV__ && notifySpy) {
+            if (notifySpy) {
                 spyReportStart(change! as PureSpyEvent)
             } // TODO fix type
+            collectChange(collectors, change)
             observable.setNewValue_(newValue as V)
             if (notify) {
                 notifyListeners(this, change)
             }
-            if (__DEV__ && notifySpy) {
+            if (notifySpy) {
                 spyReportEnd()
             }
         }
@@ -242,22 +263,18 @@ export class ObservableMap<K = any, V = any>
 
     private addValue_(key: K, newValue: V) {
         checkIfStateModificationsAreAllowed(this.keysAtom_)
-        transaction(() => {
-            const observable = new ObservableValue(
-                newValue,
-                this.enhancer_,
-                __DEV__ ? `${this.name_}.${stringifyKey(key)}` : "ObservableMap.key",
-                false
-            )
-            this.data_.set(key, observable)
-            newValue = (observable as any).value_ // value might have been changed
-            this.hasMap_.get(key)?.setNewValue_(true)
-            this.keysAtom_.reportChanged()
-        })
+        const observable = new ObservableValue(
+            newValue,
+            this.enhancer_,
+            __DEV__ ? `${this.name_}.${stringifyKey(key)}` : "ObservableMap.key",
+            false
+        )
+        newValue = (observable as any).value_ // value might have been changed
         const notifySpy = isSpyEnabled()
         const notify = hasListeners(this)
+        const collectors = getChangeCollectors(this.keysAtom_, this.hasMap_.get(key))
         const change: IMapDidChange<K, V> | null =
-            notify || notifySpy
+            notify || notifySpy || collectors
                 ? {
                       observableKind: "map",
                       debugObjectName: this.name_,
@@ -267,13 +284,19 @@ export class ObservableMap<K = any, V = any>
                       newValue
                   }
                 : null
-        if (__DEV__ && notifySpy) {
+        collectChange(collectors, change)
+        transaction(() => {
+            this.data_.set(key, observable)
+            this.hasMap_.get(key)?.setNewValue_(true)
+            this.keysAtom_.reportChanged()
+        })
+        if (notifySpy) {
             spyReportStart(change! as PureSpyEvent)
         } // TODO fix type
         if (notify) {
             notifyListeners(this, change)
         }
-        if (__DEV__ && notifySpy) {
+        if (notifySpy) {
             spyReportEnd()
         }
     }
@@ -378,8 +401,10 @@ export class ObservableMap<K = any, V = any>
         // - note that result map may differ from replacement map due to the interceptors
         transaction(() => {
             // Convert to map so we can do quick key lookups
-            const replacementMap = convertToMap(values)
-            const orderedData = new Map()
+            const replacementMap = this.keyHash_
+                ? new HashedMap(this.keyHash_, convertToMap(values))
+                : convertToMap(values)
+            const orderedData = this.createMap_<ObservableValue<V>>()
             // Used for optimization
             let keysReportChangedCalled = false
             // Delete keys that don't exist in replacement map
@@ -396,7 +421,7 @@ export class ObservableMap<K = any, V = any>
                         keysReportChangedCalled = true
                     } else {
                         // Delete prevented by interceptor
-                        const value = this.data_.get(key)
+                        const value = this.data_.get(key)!
                         orderedData.set(key, value)
                     }
                 }
@@ -412,7 +437,7 @@ export class ObservableMap<K = any, V = any>
                     // The update could have been prevented by interceptor
                     // and also we want to preserve existing values
                     // so use value from _data map (instead of replacement map)
-                    const value = this.data_.get(key)
+                    const value = this.data_.get(key)!
                     orderedData.set(key, value)
                     // Was a new key added?
                     if (!keyExisted) {
@@ -432,7 +457,7 @@ export class ObservableMap<K = any, V = any>
                     let next1 = iter1.next()
                     let next2 = iter2.next()
                     while (!next1.done) {
-                        if (next1.value !== next2.value) {
+                        if (!this.isSameKey_(next1.value, next2.value)) {
                             this.keysAtom_.reportChanged()
                             break
                         }
@@ -501,3 +526,128 @@ function convertToMap(dataStructure: any): Map<any, any> {
         return die(21, dataStructure)
     }
 }
+
+/**
+ * A `Map` that considers keys with the same hash to be the same key, and keeps the key it was first set with
+ */
+class HashedMap<K, V> implements Map<K, V> {
+    private entries_ = new Map<unknown, [K, V]>()
+
+    constructor(private hash_: (key: K) => unknown, entries?: Map<K, V>) {
+        entries?.forEach((value, key) => this.set(key, value))
+    }
+
+    get size() {
+        return this.entries_.size
+    }
+
+    has(key: K) {
+        return this.entries_.has(this.hash_(key))
+    }
+
+    get(key: K) {
+        return this.entries_.get(this.hash_(key))?.[1]
+    }
+
+    set(key: K, value: V) {
+        const hash = this.hash_(key)
+        const entry = this.entries_.get(hash)
+        if (entry) {
+            entry[1] = value
+        } else {
+            this.entries_.set(hash, [key, value])
+        }
+        return this
+    }
+
+    delete(key: K) {
+        return this.entries_.delete(this.hash_(key))
+    }
+
+    clear() {
+        this.entries_.clear()
+    }
+
+    keys(): IterableIterator<K> {
+        const entries = this.entries_.values()
+        return makeIterable({
+            next() {
+                const { done, value } = entries.next()
+                return { done, value: done ? (undefined as any) : value[0] }
+            }
+        })
+    }
+
+    values(): IterableIterator<V> {
+        const entries = this.entries_.values()
+        return makeIterable({
+            next() {
+                const { done, value } = entries.next()
+                return { done, value: done ? (undefined as any) : value[1] }
+            }
+        })
+    }
+
+    entries(): IterableIterator<[K, V]> {
+        return this.entries_.values()
+    }
+
+    forEach(callback: (value: V, key: K, map: Map<K, V>) => void, thisArg?) {
+        this.entries_.forEach(([key, value]) => callback.call(thisArg, value, key, this))
+    }
+
+    [Symbol.iterator]() {
+        return this.entries()
+    }
+
+    get [Symbol.toStringTag]() {
+        return "Map"
+    }
+}
+
+/**
+ * Hashes plain objects, arrays and dates by their contents, so that keys that are structurally equal get the same hash.
+ * Other objects, functions and symbols are compared by reference.
+ * Hashes are prefixed with the type of the key, so that a string never gets the same hash as a structure or a number.
+ */
+export function structuralKeyHash(key: unknown): unknown {
+    if (key !== null && typeof key === "object") {
+        const serialized = serializeKey(key)
+        return serialized === undefined ? key : "struct:" + serialized
+    }
+    return typeof key === "symbol" || typeof key === "function"
+        ? key
+        : typeof key + ":" + String(key)
+}
+
+function serializeKey(value: any): string | undefined {
+    if (value === null || typeof value !== "object") {
+        return typeof value === "string" ? JSON.stringify(value) : String(value)
+    }
+    if (value instanceof Date) {
+        return `Date(${value.getTime()})`
+    }
+    let result = ""
+    if (Array.isArray(value)) {
+        for (let i = 0; i < value.length; i++) {
+            const item = serializeKey(value[i])
+            if (item === undefined) {
+                return undefined
+            }
+            result += (i ? "," : "") + item
+        }
+        return `[${result}]`
+    }
+    if (isPlainObject(value)) {
+        const keys = Object.keys(value).sort()
+        for (let i = 0; i < keys.length; i++) {
+            const item = serializeKey(value[keys[i]])
+            if (item === undefined) {
+                return undefined
+            }
+            result += (i ? "," : "") + JSON.stringify(keys[i]) + ":" + item
+        }
+        return `{${result}}`
+    }
+    return undefined
+}
@@ -46,7 +46,10 @@ import {
     getAdministration,
     getDebugName,
     objectPrototype,
-    MakeResult
+    MakeResult,
+    getChangeCollectors,
+    collectChange,
+    registerPropertyOwner
 } from "../internal"
 
 const descriptorCache = Object.create(null)
@@ -146,9 +149,10 @@ export class ObservableObjectAdministration
         // notify spy & observers
         if (newValue !== globalState.UNCHANGED) {
             const notify = hasListeners(this)
-            const notifySpy = __DEV__ && isSpyEnabled()
+            const notifySpy = isSpyEnabled()
+            const collectors = getChangeCollectors(observable!)
             const change: IObjectDidChange | null =
-                notify || notifySpy
+                notify || notifySpy || collectors
                     ? {
                           type: UPDATE,
                           observableKind: "object",
@@ -160,14 +164,15 @@ export class ObservableObjectAdministration
                       }
                     : null
 
-            if (__DEV__ && notifySpy) {
+            if (notifySpy) {
                 spyReportStart(change!)
             }
+            collectChange(collectors, change)
             ;(observable as ObservableValue<any>).setNewValue_(newValue)
             if (notify) {
                 notifyListeners(this, change)
             }
-            if (__DEV__ && notifySpy) {
+            if (notifySpy) {
                 spyReportEnd()
             }
         }
@@ -417,6 +422,9 @@ export class ObservableObjectAdministration
             )
 
             this.values_.set(key, observable)
+            if (__DEV__) {
+                registerPropertyOwner(observable, this, key)
+            }
 
             // Notify (value possibly changed by ObservableValue)
             this.notifyPropertyAddition_(key, observable.value_)
@@ -473,7 +481,11 @@ export class ObservableObjectAdministration
                 defineProperty(this.target_, key, descriptor)
             }
 
-            this.values_.set(key, new ComputedValue(options))
+            const computed = new ComputedValue(options)
+            this.values_.set(key, computed)
+            if (__DEV__) {
+                registerPropertyOwner(computed, this, key)
+            }
 
             // Notify
             this.notifyPropertyAddition_(key, undefined)
@@ -512,12 +524,17 @@ export class ObservableObjectAdministration
         try {
             startBatch()
             const notify = hasListeners(this)
-            const notifySpy = __DEV__ && isSpyEnabled()
+            const notifySpy = isSpyEnabled()
             const observable = this.values_.get(key)
+            const collectors = getChangeCollectors(
+                this.keysAtom_,
+                observable,
+                this.pendingKeys_?.get(key)
+            )
             // Value needed for spies/listeners
             let value = undefined
             // Optimization: don't pull the value unless we will need it
-            if (!observable && (notify || notifySpy)) {
+            if (!observable && (notify || notifySpy || collectors)) {
                 value = getDescriptor(this.target_, key)?.value
             }
             // delete prop (do first, may fail)
@@ -550,7 +567,7 @@ export class ObservableObjectAdministration
             this.pendingKeys_?.get(key)?.set(key in this.target_)
 
             // Notify spies/listeners
-            if (notify || notifySpy) {
+            if (notify || notifySpy || collectors) {
                 const change: IObjectDidChange = {
                     type: REMOVE,
                     observableKind: "object",
@@ -559,13 +576,14 @@ export class ObservableObjectAdministration
                     oldValue: value,
                     name: key
                 }
-                if (__DEV__ && notifySpy) {
+                collectChange(collectors, change)
+                if (notifySpy) {
                     spyReportStart(change!)
                 }
                 if (notify) {
                     notifyListeners(this, change)
                 }
-                if (__DEV__ && notifySpy) {
+                if (notifySpy) {
                     spyReportEnd()
                 }
             }
@@ -593,10 +611,11 @@ export class ObservableObjectAdministration
 
     notifyPropertyAddition_(key: PropertyKey, value: any) {
         const notify = hasListeners(this)
-        const notifySpy = __DEV__ && isSpyEnabled()
-        if (notify || notifySpy) {
+        const notifySpy = isSpyEnabled()
+        const collectors = getChangeCollectors(this.keysAtom_, this.pendingKeys_?.get(key))
+        if (notify || notifySpy || collectors) {
             const change: IObjectDidChange | null =
-                notify || notifySpy
+                notify || notifySpy || collectors
                     ? ({
                           type: ADD,
                           observableKind: "object",
@@ -607,13 +626,14 @@ export class ObservableObjectAdministration
                       } as const)
                     : null
 
-            if (__DEV__ && notifySpy) {
+            collectChange(collectors, change)
+            if (notifySpy) {
                 spyReportStart(change!)
             }
             if (notify) {
                 notifyListeners(this, change)
             }
-            if (__DEV__ && notifySpy) {
+            if (notifySpy) {
                 spyReportEnd()
             }
         }
@@ -27,7 +27,9 @@ import {
     DELETE,
     ADD,
     die,
-    isFunction
+    isFunction,
+    getChangeCollectors,
+    collectChange
 } from "../internal"
 
 const ObservableSetMarker = {}
@@ -129,14 +131,11 @@ export class ObservableSet<T = any> implements Set<T>, IInterceptable<ISetWillCh
             // changed by interceptor. Same applies for other Set and Map api's.
         }
         if (!this.has(value)) {
-            transaction(() => {
-                this.data_.add(this.enhancer_(value, undefined))
-                this.atom_.reportChanged()
-            })
-            const notifySpy = __DEV__ && isSpyEnabled()
+            const notifySpy = isSpyEnabled()
             const notify = hasListeners(this)
+            const collectors = getChangeCollectors(this.atom_)
             const change =
-                notify || notifySpy
+                notify || notifySpy || collectors
                     ? <ISetDidChange<T>>{
                           observableKind: "set",
                           debugObjectName: this.name_,
@@ -145,13 +144,18 @@ export class ObservableSet<T = any> implements Set<T>, IInterceptable<ISetWillCh
                           newValue: value
                       }
                     : null
-            if (notifySpy && __DEV__) {
+            collectChange(collectors, change)
+            transaction(() => {
+                this.data_.add(this.enhancer_(value, undefined))
+                this.atom_.reportChanged()
+            })
+            if (notifySpy) {
                 spyReportStart(change!)
             }
             if (notify) {
                 notifyListeners(this, change)
             }
-            if (notifySpy && __DEV__) {
+            if (notifySpy) {
                 spyReportEnd()
             }
         }
@@ -171,10 +175,11 @@ export class ObservableSet<T = any> implements Set<T>, IInterceptable<ISetWillCh
             }
         }
         if (this.has(value)) {
-            const notifySpy = __DEV__ && isSpyEnabled()
+            const notifySpy = isSpyEnabled()
             const notify = hasListeners(this)
+            const collectors = getChangeCollectors(this.atom_)
             const change =
-                notify || notifySpy
+                notify || notifySpy || collectors
                     ? <ISetDidChange<T>>{
                           observableKind: "set",
                           debugObjectName: this.name_,
@@ -184,9 +189,10 @@ export class ObservableSet<T = any> implements Set<T>, IInterceptable<ISetWillCh
                       }
                     : null
 
-            if (notifySpy && __DEV__) {
+            if (notifySpy) {
                 spyReportStart(change!)
             }
+            collectChange(collectors, change)
             transaction(() => {
                 this.atom_.reportChanged()
                 this.data_.delete(value)
@@ -194,7 +200,7 @@ export class ObservableSet<T = any> implements Set<T>, IInterceptable<ISetWillCh
             if (notify) {
                 notifyListeners(this, change)
             }
-            if (notifySpy && __DEV__) {
+            if (notifySpy) {
                 spyReportEnd()
             }
             return true
@@ -0,0 +1,285 @@
+import {
+    $mobx,
+    Atom,
+    IArraySplice,
+    IArrayUpdate,
+    IAtom,
+    IEnhancer,
+    IListenable,
+    Lambda,
+    allowStateChangesEnd,
+    allowStateChangesStart,
+    checkIfStateModificationsAreAllowed,
+    collectChange,
+    createInstanceofPredicate,
+    referenceEnhancer,
+    die,
+    getChangeCollectors,
+    getNextId,
+    hasListeners,
+    isFunction,
+    isSpyEnabled,
+    notifyListeners,
+    registerListener,
+    spyReportEnd,
+    spyReportStart
+} from "../internal"
+
+export type ICompareFn<T> = (a: T, b: T) => number
+
+/**
+ * The changes of sorted collections use the format of array changes, with the collection as `object`
+ */
+export type ISortedCollectionChange<T, O> = (
+    | Omit<IArraySplice<T>, "object">
+    | Omit<IArrayUpdate<T>, "object">
+) & { object: O }
+
+export type ISortedArrayDidChange<T = any> = ISortedCollectionChange<T, ObservableSortedArray<T>>
+
+/**
+ * Returns the index of the first item that is not sorted before `value`,
+ * or, if `upper` is set, the index of the first item that is sorted after `value`.
+ */
+export function binarySearch<T, V>(
+    items: readonly T[],
+    value: V,
+    compare: (item: T, value: V) => number,
+    upper: boolean
+): number {
+    let low = 0
+    let high = items.length
+    while (low < high) {
+        const middle = (low + high) >>> 1
+        const result = compare(items[middle], value)
+        if (result < 0 || (upper && result === 0)) {
+            low = middle + 1
+        } else {
+            high = middle
+        }
+    }
+    return low
+}
+
+export function assertCompareFn(compareFn: unknown) {
+    if (!isFunction(compareFn)) {
+        die("A sorted collection expects a compare function as first argument")
+    }
+}
+
+const ObservableSortedArrayMarker = {}
+
+/**
+ * An array that keeps its items sorted by `compareFn`.
+ * Items that compare as equal keep the order in which they were added.
+ */
+export class ObservableSortedArray<T = any> implements IListenable {
+    [$mobx] = ObservableSortedArrayMarker
+    atom_: IAtom
+    values_: T[] = []
+    changeListeners_
+    enhancer_: (newV: any, oldV: any | undefined) => any
+
+    constructor(
+        public compareFn_: ICompareFn<T>,
+        initialValues?: readonly T[],
+        enhancer: IEnhancer<T> = referenceEnhancer,
+        public name_ = __DEV__ ? "ObservableSortedArray@" + getNextId() : "ObservableSortedArray"
+    ) {
+        assertCompareFn(compareFn_)
+        this.atom_ = new Atom(name_)
+        this.enhancer_ = (newV, oldV) =>
+            enhancer(newV, oldV, __DEV__ ? name_ + "[..]" : "ObservableSortedArray[..]")
+        if (initialValues && initialValues.length) {
+            const prev = allowStateChangesStart(true)
+            this.replace(initialValues)
+            allowStateChangesEnd(prev)
+        }
+    }
+
+    get length(): number {
+        this.atom_.reportObserved()
+        return this.values_.length
+    }
+
+    at(index: number): T | undefined {
+        this.atom_.reportObserved()
+        return this.values_[index < 0 ? this.values_.length + index : index]
+    }
+
+    first(): T | undefined {
+        return this.at(0)
+    }
+
+    last(): T | undefined {
+        return this.at(-1)
+    }
+
+    /**
+     * Finds `value` by binary search, returns -1 if the array doesn't contain it
+     */
+    indexOf(value: T): number {
+        this.atom_.reportObserved()
+        const { values_, compareFn_ } = this
+        for (
+            let i = binarySearch(values_, value, compareFn_, false);
+            i < values_.length && compareFn_(values_[i], value) === 0;
+            i++
+        ) {
+            if (values_[i] === value) {
+                return i
+            }
+        }
+        return -1
+    }
+
+    includes(value: T): boolean {
+        return this.indexOf(value) !== -1
+    }
+
+    /**
+     * Returns the items that are sorted from `from` up to, but not including, `to`
+     */
+    range(from: T, to?: T): T[] {
+        this.atom_.reportObserved()
+        const { values_, compareFn_ } = this
+        const start = binarySearch(values_, from, compareFn_, false)
+        const end = to === undefined ? values_.length : binarySearch(values_, to, compareFn_, false)
+        return values_.slice(start, Math.max(start, end))
+    }
+
+    /**
+     * Adds `value` after the items that are sorted before or equal to it, and returns its index
+     */
+    add(value: T): number {
+        checkIfStateModificationsAreAllowed(this.atom_)
+        value = this.enhancer_(value, undefined)
+        const index = binarySearch(this.values_, value, this.compareFn_, true)
+        this.values_.splice(index, 0, value)
+        this.notifyArraySplice_(index, [value], [])
+        return index
+    }
+
+    remove(value: T): boolean {
+        const index = this.indexOf(value)
+        if (index === -1) {
+            return false
+        }
+        this.removeAt(index)
+        return true
+    }
+
+    removeAt(index: number): T | undefined {
+        checkIfStateModificationsAreAllowed(this.atom_)
+        if (index < 0 || index >= this.values_.length) {
+            return undefined
+        }
+        const removed = this.values_.splice(index, 1)
+        this.notifyArraySplice_(index, [], removed)
+        return removed[0]
+    }
+
+    clear(): T[] {
+        return this.replace([])
+    }
+
+    /**
+     * Replaces all items, returns the items that were removed
+     */
+    replace(values: readonly T[]): T[] {
+        checkIfStateModificationsAreAllowed(this.atom_)
+        const added = values.map(value => this.enhancer_(value, undefined))
+        // Array.prototype.sort is stable, so equal items keep their order
+        added.sort(this.compareFn_)
+        const removed = this.values_.splice(0, this.values_.length, ...added)
+        if (removed.length || added.length) {
+            this.notifyArraySplice_(0, added, removed)
+        }
+        return removed
+    }
+
+    private notifyArraySplice_(index: number, added: T[], removed: T[]) {
+        const notifySpy = isSpyEnabled()
+        const notify = hasListeners(this)
+        const collectors = getChangeCollectors(this.atom_)
+        const change: ISortedArrayDidChange<T> | null =
+            notify || notifySpy || collectors
+                ? {
+                      observableKind: "array",
+                      object: this,
+                      debugObjectName: this.name_,
+                      type: "splice",
+                      index,
+                      removed,
+                      added,
+                      removedCount: removed.length,
+                      addedCount: added.length
+                  }
+                : null
+        if (notifySpy) {
+            spyReportStart(change!)
+        }
+        collectChange(collectors, change)
+        this.atom_.reportChanged()
+        if (notify) {
+            notifyListeners(this, change)
+        }
+        if (notifySpy) {
+            spyReportEnd()
+        }
+    }
+
+    slice(start?: number, end?: number): T[] {
+        this.atom_.reportObserved()
+        return this.values_.slice(start, end)
+    }
+
+    forEach(callback: (value: T, index: number, array: this) => void, thisArg?: unknown) {
+        this.slice().forEach((value, index) => callback.call(thisArg, value, index, this))
+    }
+
+    map<U>(callback: (value: T, index: number, array: this) => U, thisArg?: unknown): U[] {
+        return this.slice().map((value, index) => callback.call(thisArg, value, index, this))
+    }
+
+    [Symbol.iterator](): IterableIterator<T> {
+        return this.slice()[Symbol.iterator]()
+    }
+
+    toJSON(): T[] {
+        return this.slice()
+    }
+
+    toString(): string {
+        return "[object ObservableSortedArray]"
+    }
+
+    /**
+     * Observes this array. Every added or removed item is reported as a `splice`.
+     */
+    observe_(
+        listener: (change: ISortedArrayDidChange<T>) => void,
+        fireImmediately = false
+    ): Lambda {
+        if (fireImmediately) {
+            listener({
+                observableKind: "array",
+                object: this,
+                debugObjectName: this.name_,
+                type: "splice",
+                index: 0,
+                added: this.values_.slice(),
+                addedCount: this.values_.length,
+                removed: [],
+                removedCount: 0
+            })
+        }
+        return registerListener(this, listener)
+    }
+}
+
+// eslint-disable-next-line
+export var isObservableSortedArray = createInstanceofPredicate(
+    "ObservableSortedArray",
+    ObservableSortedArray
+) as (thing: any) => thing is ObservableSortedArray<any>
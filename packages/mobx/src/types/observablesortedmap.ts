@@ -0,0 +1,322 @@
+import {
+    $mobx,
+    Atom,
+    IArraySplice,
+    IArrayUpdate,
+    IAtom,
+    ICompareFn,
+    IEnhancer,
+    IListenable,
+    ISortedCollectionChange,
+    Lambda,
+    ObservableValue,
+    Reaction,
+    allowStateChangesEnd,
+    allowStateChangesStart,
+    assertCompareFn,
+    binarySearch,
+    checkIfStateModificationsAreAllowed,
+    collectChange,
+    createInstanceofPredicate,
+    deepEnhancer,
+    getChangeCollectors,
+    getNextId,
+    globalState,
+    hasListeners,
+    isSpyEnabled,
+    notifyListeners,
+    registerListener,
+    spyReportEnd,
+    spyReportStart,
+    stringifyKey,
+    transaction
+} from "../internal"
+
+export type ISortedMapDidChange<K = any, V = any> = ISortedCollectionChange<
+    [K, V],
+    ObservableSortedMap<K, V>
+>
+
+export type IObservableSortedMapInitialValues<K = any, V = any> = readonly (readonly [K, V])[]
+
+type ChangeDetails<K, V> =
+    | Omit<IArraySplice<[K, V]>, "object" | "observableKind" | "debugObjectName">
+    | Omit<IArrayUpdate<[K, V]>, "object" | "observableKind" | "debugObjectName">
+
+interface ISortedMapEntry<K, V> {
+    key: K
+    value: ObservableValue<V>
+}
+
+const ObservableSortedMapMarker = {}
+
+/**
+ * A map that keeps its keys sorted by `compareFn`. Keys that compare as equal are the same key.
+ * The order of the keys is tracked as a whole, the value of every key is tracked separately.
+ */
+export class ObservableSortedMap<K = any, V = any> implements IListenable {
+    [$mobx] = ObservableSortedMapMarker
+    // tracks the keys and their order
+    atom_: IAtom
+    entries_: ISortedMapEntry<K, V>[] = []
+    changeListeners_
+
+    constructor(
+        public compareFn_: ICompareFn<K>,
+        initialValues?: IObservableSortedMapInitialValues<K, V>,
+        public enhancer_: IEnhancer<V> = deepEnhancer,
+        public name_ = __DEV__ ? "ObservableSortedMap@" + getNextId() : "ObservableSortedMap"
+    ) {
+        assertCompareFn(compareFn_)
+        this.atom_ = new Atom(name_)
+        if (initialValues) {
+            const prev = allowStateChangesStart(true)
+            transaction(() => initialValues.forEach(([key, value]) => this.set(key, value)))
+            allowStateChangesEnd(prev)
+        }
+    }
+
+    private compareEntry_ = (entry: ISortedMapEntry<K, V>, key: K) =>
+        this.compareFn_(entry.key, key)
+
+    private findIndex_(key: K): number {
+        const index = binarySearch(this.entries_, key, this.compareEntry_, false)
+        return index < this.entries_.length && this.compareEntry_(this.entries_[index], key) === 0
+            ? index
+            : -1
+    }
+
+    private entryAt_(index: number): [K, V] | undefined {
+        const entry = this.entries_[index]
+        return entry && [entry.key, entry.value.get()]
+    }
+
+    get size(): number {
+        this.atom_.reportObserved()
+        return this.entries_.length
+    }
+
+    has(key: K): boolean {
+        return this.indexOf(key) !== -1
+    }
+
+    get(key: K): V | undefined {
+        const index = this.indexOf(key)
+        return index === -1 ? undefined : this.entries_[index].value.get()
+    }
+
+    /**
+     * Finds `key` by binary search, returns -1 if the map doesn't contain it
+     */
+    indexOf(key: K): number {
+        this.atom_.reportObserved()
+        return this.findIndex_(key)
+    }
+
+    at(index: number): [K, V] | undefined {
+        this.atom_.reportObserved()
+        return this.entryAt_(index < 0 ? this.entries_.length + index : index)
+    }
+
+    first(): [K, V] | undefined {
+        return this.at(0)
+    }
+
+    last(): [K, V] | undefined {
+        return this.at(-1)
+    }
+
+    /**
+     * Returns the entries of which the keys are sorted from `from` up to, but not including, `to`
+     */
+    range(from: K, to?: K): [K, V][] {
+        this.atom_.reportObserved()
+        const start = binarySearch(this.entries_, from, this.compareEntry_, false)
+        const end =
+            to === undefined
+                ? this.entries_.length
+                : binarySearch(this.entries_, to, this.compareEntry_, false)
+        const res: [K, V][] = []
+        for (let i = start; i < end; i++) {
+            res.push(this.entryAt_(i)!)
+        }
+        return res
+    }
+
+    set(key: K, value: V) {
+        const index = this.findIndex_(key)
+        if (index !== -1) {
+            this.updateValue_(index, value)
+            return this
+        }
+        checkIfStateModificationsAreAllowed(this.atom_)
+        const observable = new ObservableValue(
+            value,
+            this.enhancer_,
+            __DEV__ ? `${this.name_}.${stringifyKey(key)}` : "ObservableSortedMap.key",
+            false
+        )
+        const insertAt = binarySearch(this.entries_, key, this.compareEntry_, true)
+        this.notifySplice_(insertAt, [[key, (observable as any).value_]], [], () =>
+            this.entries_.splice(insertAt, 0, { key, value: observable })
+        )
+        return this
+    }
+
+    private updateValue_(index: number, newValue: V) {
+        const { key, value: observable } = this.entries_[index]
+        newValue = (observable as any).prepareNewValue_(newValue)
+        if (newValue !== globalState.UNCHANGED) {
+            const oldValue: V = (observable as any).value_
+            this.reportChange_(
+                {
+                    type: "update",
+                    index,
+                    newValue: [key, newValue],
+                    oldValue: [key, oldValue]
+                },
+                getChangeCollectors(observable),
+                () => observable.setNewValue_(newValue)
+            )
+        }
+    }
+
+    delete(key: K): boolean {
+        checkIfStateModificationsAreAllowed(this.atom_)
+        const index = this.findIndex_(key)
+        if (index === -1) {
+            return false
+        }
+        const entry = this.entries_[index]
+        this.notifySplice_(index, [], [[entry.key, (entry.value as any).value_]], () => {
+            this.entries_.splice(index, 1)
+            entry.value.setNewValue_(undefined as any)
+        })
+        return true
+    }
+
+    clear() {
+        transaction(() => {
+            while (this.entries_.length) {
+                this.delete(this.entries_[0].key)
+            }
+        })
+    }
+
+    private notifySplice_(index: number, added: [K, V][], removed: [K, V][], apply: Lambda) {
+        this.reportChange_(
+            {
+                type: "splice",
+                index,
+                added,
+                addedCount: added.length,
+                removed,
+                removedCount: removed.length
+            },
+            getChangeCollectors(this.atom_),
+            () => {
+                apply()
+                this.atom_.reportChanged()
+            }
+        )
+    }
+
+    private reportChange_(
+        details: ChangeDetails<K, V>,
+        collectors: Reaction[] | undefined,
+        apply: Lambda
+    ) {
+        const notifySpy = isSpyEnabled()
+        const notify = hasListeners(this)
+        const change =
+            notify || notifySpy || collectors
+                ? ({
+                      observableKind: "array",
+                      object: this,
+                      debugObjectName: this.name_,
+                      ...details
+                  } as ISortedMapDidChange<K, V>)
+                : null
+        if (notifySpy) {
+            spyReportStart(change!)
+        }
+        collectChange(collectors, change)
+        transaction(apply)
+        if (notify) {
+            notifyListeners(this, change)
+        }
+        if (notifySpy) {
+            spyReportEnd()
+        }
+    }
+
+    keys(): IterableIterator<K> {
+        this.atom_.reportObserved()
+        return this.entries_.map(entry => entry.key)[Symbol.iterator]()
+    }
+
+    values(): IterableIterator<V> {
+        return Array.from(this.entries(), ([, value]) => value)[Symbol.iterator]()
+    }
+
+    entries(): IterableIterator<[K, V]> {
+        this.atom_.reportObserved()
+        const entries = this.entries_.map(entry => [entry.key, entry.value.get()] as [K, V])
+        return entries[Symbol.iterator]()
+    }
+
+    forEach(callback: (value: V, key: K, object: this) => void, thisArg?: unknown) {
+        for (const [key, value] of this.entries()) {
+            callback.call(thisArg, value, key, this)
+        }
+    }
+
+    [Symbol.iterator]() {
+        return this.entries()
+    }
+
+    toJSON(): [K, V][] {
+        return Array.from(this.entries())
+    }
+
+    toString(): string {
+        return "[object ObservableSortedMap]"
+    }
+
+    get [Symbol.toStringTag]() {
+        return "Map"
+    }
+
+    /**
+     * Observes this map. Added and deleted keys are reported as a `splice` of entries,
+     * a new value of an existing key as an `update` of its entry.
+     */
+    observe_(
+        listener: (change: ISortedMapDidChange<K, V>) => void,
+        fireImmediately = false
+    ): Lambda {
+        if (fireImmediately) {
+            const entries = this.entries_.map(
+                entry => [entry.key, (entry.value as any).value_] as [K, V]
+            )
+            listener({
+                observableKind: "array",
+                object: this,
+                debugObjectName: this.name_,
+                type: "splice",
+                index: 0,
+                added: entries,
+                addedCount: entries.length,
+                removed: [],
+                removedCount: 0
+            })
+        }
+        return registerListener(this, listener)
+    }
+}
+
+// eslint-disable-next-line
+export var isObservableSortedMap = createInstanceofPredicate(
+    "ObservableSortedMap",
+    ObservableSortedMap
+) as (thing: any) => thing is ObservableSortedMap<any, any>
@@ -78,7 +78,7 @@ export class ObservableValue<T>
     ) {
         super(name_)
         this.value_ = enhancer(value, undefined, name_)
-        if (__DEV__ && notifySpy && isSpyEnabled()) {
+        if (notifySpy && isSpyEnabled()) {
             // only notify spy if this is a stand-alone observable
             spyReport({
                 type: CREATE,
@@ -102,7 +102,7 @@ export class ObservableValue<T>
         newValue = this.prepareNewValue_(newValue) as any
         if (newValue !== globalState.UNCHANGED) {
             const notifySpy = isSpyEnabled()
-            if (__DEV__ && notifySpy) {
+            if (notifySpy) {
                 spyReportStart({
                     type: UPDATE,
                     object: this,
@@ -113,7 +113,7 @@ export class ObservableValue<T>
                 })
             }
             this.setNewValue_(newValue)
-            if (__DEV__ && notifySpy) {
+            if (notifySpy) {
                 spyReportEnd()
             }
         }
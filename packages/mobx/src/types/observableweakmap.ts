@@ -0,0 +1,312 @@
+import {
+    $mobx,
+    IEnhancer,
+    IInterceptable,
+    IInterceptor,
+    IListenable,
+    Lambda,
+    ObservableValue,
+    checkIfStateModificationsAreAllowed,
+    createAtom,
+    createInstanceofPredicate,
+    deepEnhancer,
+    getNextId,
+    hasInterceptors,
+    hasListeners,
+    interceptChange,
+    isSpyEnabled,
+    notifyListeners,
+    referenceEnhancer,
+    registerInterceptor,
+    registerListener,
+    spyReportEnd,
+    spyReportStart,
+    stringifyKey,
+    transaction,
+    globalState,
+    die,
+    UPDATE,
+    ADD,
+    DELETE,
+    IAtom,
+    allowStateChanges,
+    getChangeCollectors,
+    collectChange
+} from "../internal"
+
+export type IWeakMapDidChange<K extends object = any, V = any> = {
+    observableKind: "weakMap"
+    debugObjectName: string
+    object: ObservableWeakMap<K, V>
+    name: K
+} & (
+    | {
+          type: "update"
+          newValue: V
+          oldValue: V
+      }
+    | {
+          type: "add"
+          newValue: V
+      }
+    | {
+          type: "delete"
+          oldValue: V
+      }
+)
+
+export interface IWeakMapWillChange<K extends object = any, V = any> {
+    object: ObservableWeakMap<K, V>
+    type: "update" | "add" | "delete"
+    name: K
+    newValue?: V
+}
+
+export type IObservableWeakMapInitialValues<K extends object = any, V = any> = readonly (readonly [
+    K,
+    V
+])[]
+
+const ObservableWeakMapMarker = {}
+
+export function isWeakKey(key: unknown): key is object {
+    return (typeof key === "object" && key !== null) || typeof key === "function"
+}
+
+/**
+ * A `WeakMap` of which `has` and `get` are tracked per key.
+ * The map doesn't keep its keys alive: entries are garbage collected together with their key.
+ */
+export class ObservableWeakMap<K extends object = any, V = any>
+    implements WeakMap<K, V>, IInterceptable<IWeakMapWillChange<K, V>>, IListenable
+{
+    [$mobx] = ObservableWeakMapMarker
+    data_ = new WeakMap<K, ObservableValue<V>>()
+    hasMap_ = new WeakMap<K, ObservableValue<boolean>>()
+    // only used to check whether changes are allowed, as a weak map can't be iterated
+    private atom_: IAtom
+    interceptors_
+    changeListeners_
+    dehancer: any
+
+    constructor(
+        initialData?: IObservableWeakMapInitialValues<K, V>,
+        public enhancer_: IEnhancer<V> = deepEnhancer,
+        public name_ = __DEV__ ? "ObservableWeakMap@" + getNextId() : "ObservableWeakMap"
+    ) {
+        this.atom_ = createAtom(this.name_)
+        if (initialData) {
+            allowStateChanges(true, () => {
+                transaction(() => initialData.forEach(([key, value]) => this.set(key, value)))
+            })
+        }
+    }
+
+    has(key: K): boolean {
+        if (!globalState.trackingDerivation || !isWeakKey(key)) {
+            return this.data_.has(key)
+        }
+
+        let entry = this.hasMap_.get(key)
+        if (!entry) {
+            entry = new ObservableValue(
+                this.data_.has(key),
+                referenceEnhancer,
+                __DEV__ ? `${this.name_}.${stringifyKey(key)}?` : "ObservableWeakMap.key?",
+                false
+            )
+            this.hasMap_.set(key, entry)
+        }
+        return entry.get()
+    }
+
+    get(key: K): V | undefined {
+        if (this.has(key)) {
+            return this.dehanceValue_(this.data_.get(key)!.get())
+        }
+        return this.dehanceValue_(undefined)
+    }
+
+    private dehanceValue_<X extends V | undefined>(value: X): X {
+        if (this.dehancer !== undefined) {
+            return this.dehancer(value)
+        }
+        return value
+    }
+
+    set(key: K, value: V) {
+        if (__DEV__ && !isWeakKey(key)) {
+            die(`Invalid value used as weak map key: ${stringifyKey(key)}`)
+        }
+        const hasKey = this.data_.has(key)
+        if (hasInterceptors(this)) {
+            const change = interceptChange<IWeakMapWillChange<K, V>>(this, {
+                type: hasKey ? UPDATE : ADD,
+                object: this,
+                newValue: value,
+                name: key
+            })
+            if (!change) {
+                return this
+            }
+            value = change.newValue!
+        }
+        if (hasKey) {
+            this.updateValue_(key, value)
+        } else {
+            this.addValue_(key, value)
+        }
+        return this
+    }
+
+    delete(key: K): boolean {
+        checkIfStateModificationsAreAllowed(this.hasMap_.get(key) || this.atom_)
+        if (hasInterceptors(this)) {
+            const change = interceptChange<IWeakMapWillChange<K, V>>(this, {
+                type: DELETE,
+                object: this,
+                name: key
+            })
+            if (!change) {
+                return false
+            }
+        }
+        const observable = this.data_.get(key)
+        if (!observable) {
+            return false
+        }
+        const notifySpy = isSpyEnabled()
+        const notify = hasListeners(this)
+        const collectors = getChangeCollectors(this.atom_, this.hasMap_.get(key), observable)
+        const change: IWeakMapDidChange<K, V> | null =
+            notify || notifySpy || collectors
+                ? {
+                      observableKind: "weakMap",
+                      debugObjectName: this.name_,
+                      type: DELETE,
+                      object: this,
+                      oldValue: (<any>observable).value_,
+                      name: key
+                  }
+                : null
+        if (notifySpy) {
+            spyReportStart(change!)
+        }
+        collectChange(collectors, change)
+        transaction(() => {
+            this.hasMap_.get(key)?.setNewValue_(false)
+            observable.setNewValue_(undefined as any)
+            this.data_.delete(key)
+        })
+        if (notify) {
+            notifyListeners(this, change)
+        }
+        if (notifySpy) {
+            spyReportEnd()
+        }
+        return true
+    }
+
+    private updateValue_(key: K, newValue: V | undefined) {
+        const observable = this.data_.get(key)!
+        newValue = (observable as any).prepareNewValue_(newValue) as V
+        if (newValue !== globalState.UNCHANGED) {
+            const notifySpy = isSpyEnabled()
+            const notify = hasListeners(this)
+            const collectors = getChangeCollectors(observable)
+            const change: IWeakMapDidChange<K, V> | null =
+                notify || notifySpy || collectors
+                    ? {
+                          observableKind: "weakMap",
+                          debugObjectName: this.name_,
+                          type: UPDATE,
+                          object: this,
+                          oldValue: (observable as any).value_,
+                          name: key,
+                          newValue
+                      }
+                    : null
+            if (notifySpy) {
+                spyReportStart(change!)
+            }
+            collectChange(collectors, change)
+            observable.setNewValue_(newValue as V)
+            if (notify) {
+                notifyListeners(this, change)
+            }
+            if (notifySpy) {
+                spyReportEnd()
+            }
+        }
+    }
+
+    private addValue_(key: K, newValue: V) {
+        checkIfStateModificationsAreAllowed(this.hasMap_.get(key) || this.atom_)
+        const observable = new ObservableValue(
+            newValue,
+            this.enhancer_,
+            __DEV__ ? `${this.name_}.${stringifyKey(key)}` : "ObservableWeakMap.key",
+            false
+        )
+        newValue = (observable as any).value_ // value might have been changed
+        const notifySpy = isSpyEnabled()
+        const notify = hasListeners(this)
+        const collectors = getChangeCollectors(this.atom_, this.hasMap_.get(key))
+        const change: IWeakMapDidChange<K, V> | null =
+            notify || notifySpy || collectors
+                ? {
+                      observableKind: "weakMap",
+                      debugObjectName: this.name_,
+                      type: ADD,
+                      object: this,
+                      name: key,
+                      newValue
+                  }
+                : null
+        if (notifySpy) {
+            spyReportStart(change!)
+        }
+        collectChange(collectors, change)
+        transaction(() => {
+            this.data_.set(key, observable)
+            this.hasMap_.get(key)?.setNewValue_(true)
+        })
+        if (notify) {
+            notifyListeners(this, change)
+        }
+        if (notifySpy) {
+            spyReportEnd()
+        }
+    }
+
+    toString(): string {
+        return "[object ObservableWeakMap]"
+    }
+
+    get [Symbol.toStringTag]() {
+        return "WeakMap"
+    }
+
+    /**
+     * Observes this weak map. Triggers for the events 'add', 'update' and 'delete'.
+     */
+    observe_(
+        listener: (changes: IWeakMapDidChange<K, V>) => void,
+        fireImmediately?: boolean
+    ): Lambda {
+        if (__DEV__ && fireImmediately === true) {
+            die("`observe` doesn't support fireImmediately=true in combination with weak maps.")
+        }
+        return registerListener(this, listener)
+    }
+
+    intercept_(handler: IInterceptor<IWeakMapWillChange<K, V>>): Lambda {
+        return registerInterceptor(this, handler)
+    }
+}
+
+// eslint-disable-next-line
+export var isObservableWeakMap = createInstanceofPredicate(
+    "ObservableWeakMap",
+    ObservableWeakMap
+) as (thing: any) => thing is ObservableWeakMap<any, any>
@@ -0,0 +1,217 @@
+import {
+    $mobx,
+    IInterceptable,
+    IInterceptor,
+    IListenable,
+    Lambda,
+    ObservableValue,
+    checkIfStateModificationsAreAllowed,
+    createAtom,
+    createInstanceofPredicate,
+    getNextId,
+    hasInterceptors,
+    hasListeners,
+    interceptChange,
+    isSpyEnabled,
+    isWeakKey,
+    notifyListeners,
+    referenceEnhancer,
+    registerInterceptor,
+    registerListener,
+    spyReportEnd,
+    spyReportStart,
+    stringifyKey,
+    transaction,
+    globalState,
+    die,
+    ADD,
+    DELETE,
+    IAtom,
+    allowStateChanges,
+    getChangeCollectors,
+    collectChange
+} from "../internal"
+
+export type IWeakSetDidChange<T extends object = any> =
+    | {
+          object: ObservableWeakSet<T>
+          observableKind: "weakSet"
+          debugObjectName: string
+          type: "add"
+          newValue: T
+      }
+    | {
+          object: ObservableWeakSet<T>
+          observableKind: "weakSet"
+          debugObjectName: string
+          type: "delete"
+          oldValue: T
+      }
+
+export type IWeakSetWillChange<T extends object = any> =
+    | {
+          type: "delete"
+          object: ObservableWeakSet<T>
+          oldValue: T
+      }
+    | {
+          type: "add"
+          object: ObservableWeakSet<T>
+          newValue: T
+      }
+
+const ObservableWeakSetMarker = {}
+
+/**
+ * A `WeakSet` of which `has` is tracked per value.
+ * The set doesn't keep its values alive, and doesn't make them observable.
+ */
+export class ObservableWeakSet<T extends object = any>
+    implements WeakSet<T>, IInterceptable<IWeakSetWillChange<T>>, IListenable
+{
+    [$mobx] = ObservableWeakSetMarker
+    data_ = new WeakSet<T>()
+    hasMap_ = new WeakMap<T, ObservableValue<boolean>>()
+    // only used to check whether changes are allowed, as a weak set can't be iterated
+    private atom_: IAtom
+    interceptors_
+    changeListeners_
+
+    constructor(
+        initialData?: readonly T[],
+        public name_ = __DEV__ ? "ObservableWeakSet@" + getNextId() : "ObservableWeakSet"
+    ) {
+        this.atom_ = createAtom(this.name_)
+        if (initialData) {
+            allowStateChanges(true, () => {
+                transaction(() => initialData.forEach(value => this.add(value)))
+            })
+        }
+    }
+
+    has(value: T): boolean {
+        if (!globalState.trackingDerivation || !isWeakKey(value)) {
+            return this.data_.has(value)
+        }
+
+        let entry = this.hasMap_.get(value)
+        if (!entry) {
+            entry = new ObservableValue(
+                this.data_.has(value),
+                referenceEnhancer,
+                __DEV__ ? `${this.name_}.${stringifyKey(value)}?` : "ObservableWeakSet.value?",
+                false
+            )
+            this.hasMap_.set(value, entry)
+        }
+        return entry.get()
+    }
+
+    add(value: T) {
+        if (__DEV__ && !isWeakKey(value)) {
+            die(`Invalid value used in weak set: ${stringifyKey(value)}`)
+        }
+        checkIfStateModificationsAreAllowed(this.hasMap_.get(value) || this.atom_)
+        if (hasInterceptors(this)) {
+            const change = interceptChange<IWeakSetWillChange<T>>(this, {
+                type: ADD,
+                object: this,
+                newValue: value
+            })
+            if (!change) {
+                return this
+            }
+        }
+        if (!this.data_.has(value)) {
+            this.change_(value, ADD)
+        }
+        return this
+    }
+
+    delete(value: T) {
+        checkIfStateModificationsAreAllowed(this.hasMap_.get(value) || this.atom_)
+        if (hasInterceptors(this)) {
+            const change = interceptChange<IWeakSetWillChange<T>>(this, {
+                type: DELETE,
+                object: this,
+                oldValue: value
+            })
+            if (!change) {
+                return false
+            }
+        }
+        if (this.data_.has(value)) {
+            this.change_(value, DELETE)
+            return true
+        }
+        return false
+    }
+
+    private change_(value: T, type: typeof ADD | typeof DELETE) {
+        const notifySpy = isSpyEnabled()
+        const notify = hasListeners(this)
+        const entry = this.hasMap_.get(value)
+        const collectors = getChangeCollectors(this.atom_, entry)
+        const change: IWeakSetDidChange<T> | null =
+            notify || notifySpy || collectors
+                ? type === ADD
+                    ? {
+                          observableKind: "weakSet",
+                          debugObjectName: this.name_,
+                          type: ADD,
+                          object: this,
+                          newValue: value
+                      }
+                    : {
+                          observableKind: "weakSet",
+                          debugObjectName: this.name_,
+                          type: DELETE,
+                          object: this,
+                          oldValue: value
+                      }
+                : null
+        if (notifySpy) {
+            spyReportStart(change!)
+        }
+        collectChange(collectors, change)
+        transaction(() => {
+            if (type === ADD) {
+                this.data_.add(value)
+            } else {
+                this.data_.delete(value)
+            }
+            entry?.setNewValue_(type === ADD)
+        })
+        if (notify) {
+            notifyListeners(this, change)
+        }
+        if (notifySpy) {
+            spyReportEnd()
+        }
+    }
+
+    toString(): string {
+        return "[object ObservableWeakSet]"
+    }
+
+    get [Symbol.toStringTag]() {
+        return "WeakSet"
+    }
+
+    observe_(listener: (changes: IWeakSetDidChange<T>) => void, fireImmediately?: boolean): Lambda {
+        if (__DEV__ && fireImmediately === true) {
+            die("`observe` doesn't support fireImmediately=true in combination with weak sets.")
+        }
+        return registerListener(this, listener)
+    }
+
+    intercept_(handler: IInterceptor<IWeakSetWillChange<T>>): Lambda {
+        return registerInterceptor(this, handler)
+    }
+}
+
+// eslint-disable-next-line
+export var isObservableWeakSet = createInstanceofPredicate(
+    "ObservableWeakSet",
+    ObservableWeakSet
+) as (thing: any) => thing is ObservableWeakSet<any>
@@ -9,6 +9,10 @@ import {
     isObservableObject,
     isReaction,
     isObservableSet,
+    isObservableWeakMap,
+    isObservableWeakSet,
+    isObservableSortedArray,
+    isObservableSortedMap,
     die,
     isFunction
 } from "../internal"
@@ -24,6 +28,32 @@ export function getAtom(thing: any, property?: PropertyKey): IDepTreeNode {
         if (isObservableSet(thing)) {
             return (thing as any)[$mobx]
         }
+        if (isObservableSortedArray(thing)) {
+            if (property !== undefined) {
+                die(23)
+            }
+            return thing.atom_
+        }
+        if (isObservableSortedMap(thing)) {
+            if (property === undefined) {
+                return thing.atom_
+            }
+            const index = thing.indexOf(property as any)
+            if (index === -1) {
+                die(25, property, getDebugName(thing))
+            }
+            return thing.entries_[index].value
+        }
+        if (isObservableWeakMap(thing) || isObservableWeakSet(thing)) {
+            const observable =
+                property !== undefined &&
+                ((isObservableWeakMap(thing) && thing.data_.get(property as any)) ||
+                    thing.hasMap_.get(property as any))
+            if (!observable) {
+                die(`the entry '${String(property)}' does not exist in '${getDebugName(thing)}'`)
+            }
+            return observable
+        }
         if (isObservableMap(thing)) {
             if (property === undefined) {
                 return thing.keysAtom_
@@ -69,7 +99,14 @@ export function getAdministration(thing: any, property?: string) {
     if (isAtom(thing) || isComputedValue(thing) || isReaction(thing)) {
         return thing
     }
-    if (isObservableMap(thing) || isObservableSet(thing)) {
+    if (
+        isObservableMap(thing) ||
+        isObservableSet(thing) ||
+        isObservableWeakMap(thing) ||
+        isObservableWeakSet(thing) ||
+        isObservableSortedArray(thing) ||
+        isObservableSortedMap(thing)
+    ) {
         return thing
     }
     if (thing[$mobx]) {
@@ -84,7 +121,15 @@ export function getDebugName(thing: any, property?: string): string {
         named = getAtom(thing, property)
     } else if (isAction(thing)) {
         return thing.name
-    } else if (isObservableObject(thing) || isObservableMap(thing) || isObservableSet(thing)) {
+    } else if (
+        isObservableObject(thing) ||
+        isObservableMap(thing) ||
+        isObservableSet(thing) ||
+        isObservableWeakMap(thing) ||
+        isObservableWeakSet(thing) ||
+        isObservableSortedArray(thing) ||
+        isObservableSortedMap(thing)
+    ) {
         named = getAdministration(thing)
     } else {
         // valid for arrays as well